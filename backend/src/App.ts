@@ -14,8 +14,20 @@ import {
   orderRouter,
   authRouter,
   aiRouter,
+  cartRouter,
+  couponRouter,
+  paymentRouter,
+  returnRouter,
+  reviewRouter,
+  trashRouter,
+  meRouter,
 } from "./routers/index";
 import { setupSwagger } from "./swagger";
+import { RawBodyRequest } from "./types";
+import { LOCAL_MEDIA_ROOT } from "./utils/mediaStorage";
+import { scheduleTrashPurge } from "./utils/trash";
+import { backfillAffinities } from "./utils/recommendations";
+import { promoteConfiguredAdmins } from "./utils/permissions";
 
 // Create express app
 const app = express();
@@ -23,7 +35,14 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(
+  express.json({
+    // Keep the raw body so payment webhooks can verify their signature
+    verify: (req, res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  })
+);
 
 // Root route
 app.get("/", (req, res) => {
@@ -37,10 +56,21 @@ app.get("/", (req, res) => {
       orders: "/orders",
       auth: "/auth",
       ai: "/ai",
+      cart: "/cart",
+      coupons: "/coupons",
+      payments: "/payments",
+      returns: "/returns",
+      reviews: "/reviews",
+      media: "/media",
+      trash: "/trash",
+      me: "/me",
     },
   });
 });
 
+// Uploaded product images, stored by the local media adapter
+app.use("/media", express.static(LOCAL_MEDIA_ROOT));
+
 // Routes
 app.use("/users", userRouter);
 app.use("/categories", categoryRouter);
@@ -48,6 +78,13 @@ app.use("/products", productRouter);
 app.use("/orders", orderRouter);
 app.use("/auth", authRouter);
 app.use("/ai", aiRouter);
+app.use("/cart", cartRouter);
+app.use("/coupons", couponRouter);
+app.use("/payments", paymentRouter);
+app.use("/returns", returnRouter);
+app.use("/reviews", reviewRouter);
+app.use("/trash", trashRouter);
+app.use("/me", meRouter);
 
 // Setup Swagger documentation
 setupSwagger(app);
@@ -62,6 +99,15 @@ app.use("*", notFoundHandler);
 const startServer = async () => {
   try {
     await connectDB();
+    const promoted = await promoteConfiguredAdmins();
+    if (promoted > 0) {
+      console.log(`Promoted ${promoted} user(s) from ADMIN_EMAILS to admin`);
+    }
+    scheduleTrashPurge();
+    // Count existing orders for recommendations without holding up startup
+    backfillAffinities().catch((error) =>
+      console.error("Failed to backfill product affinities:", error)
+    );
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
       console.log(`API Documentation: http://localhost:${PORT}/api-docs`);
@@ -0,0 +1,199 @@
+import { Response, NextFunction } from "express";
+import { Cart, Product } from "../models";
+import {
+  AddCartItemInput,
+  CheckoutCartInput,
+  orderItemsSchema,
+} from "../schemas";
+import { AuthRequest, TypedRequest } from "../types";
+import {
+  addCartItem,
+  CART_TOKEN_HEADER,
+  cartLineMatch,
+  CartOwner,
+  findCart,
+  findOrCreateCart,
+  priceCart,
+} from "../utils/cart";
+import { placeOrder } from "../utils/checkout";
+import { resolveVariant } from "../utils/variants";
+
+/**
+ * Logged-in users own their cart through the token's userId,
+ * anonymous clients through the cart token header
+ */
+const cartOwner = (req: AuthRequest): CartOwner => {
+  if (req.user) {
+    return { userId: req.user.userId };
+  }
+  return { token: req.header(CART_TOKEN_HEADER) || undefined };
+};
+
+export const getCart = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const cart = await findOrCreateCart(cartOwner(req));
+    res.json(await priceCart(cart));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addItemToCart = async (
+  req: AuthRequest & TypedRequest<AddCartItemInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const product = await Product.findById(req.body.productId);
+    if (!product) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+    resolveVariant(product, req.body.variantId);
+
+    const cart = await findOrCreateCart(cartOwner(req));
+    await addCartItem(
+      String(cart._id),
+      req.body.productId,
+      req.body.quantity ?? 1,
+      req.body.variantId
+    );
+
+    const updated = await Cart.findById(cart._id);
+    res.status(201).json(await priceCart(updated!));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateCartItem = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const cart = await findCart(cartOwner(req));
+    if (!cart) {
+      return res.status(404).json({ error: "Cart not found" });
+    }
+
+    const updated = await Cart.findOneAndUpdate(
+      {
+        _id: cart._id,
+        items: cartLineMatch(req.params.productId, req.query.variantId as string),
+      },
+      { $set: { "items.$.quantity": req.body.quantity } },
+      { new: true, runValidators: true }
+    );
+    if (!updated) {
+      return res.status(404).json({ error: "Product is not in the cart" });
+    }
+    res.json(await priceCart(updated));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeCartItem = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const cart = await findCart(cartOwner(req));
+    if (!cart) {
+      return res.status(404).json({ error: "Cart not found" });
+    }
+
+    const updated = await Cart.findByIdAndUpdate(
+      cart._id,
+      {
+        $pull: {
+          items: {
+            productId: req.params.productId,
+            variantId: (req.query.variantId as string) ?? null,
+          },
+        },
+      },
+      { new: true }
+    );
+    res.json(await priceCart(updated!));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const clearCart = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const cart = await findCart(cartOwner(req));
+    if (!cart) {
+      return res.status(404).json({ error: "Cart not found" });
+    }
+
+    await Cart.updateOne({ _id: cart._id }, { $set: { items: [] } });
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const checkoutCart = async (
+  req: AuthRequest & TypedRequest<CheckoutCartInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const cart = await findCart({ userId: req.user!.userId });
+    if (!cart || cart.items.length === 0) {
+      return res.status(400).json({ error: "Cart is empty" });
+    }
+
+    // Apply the same line item rules as POST /orders
+    const products = cart.items.map((item) => ({
+      productId: item.productId.toString(),
+      ...(item.variantId && { variantId: item.variantId.toString() }),
+      quantity: item.quantity,
+    }));
+    const parsed = orderItemsSchema.safeParse(products);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.errors,
+      });
+    }
+
+    const order = await placeOrder({
+      userId: req.user!.userId,
+      products: parsed.data,
+      couponCode: req.body.couponCode,
+      shippingRegion: req.body.shippingRegion,
+    });
+
+    // Only remove what was ordered, in case items were added during checkout
+    await Cart.updateOne(
+      { _id: cart._id },
+      {
+        $pull: {
+          items: {
+            $or: cart.items.map((i) => ({
+              productId: i.productId,
+              variantId: i.variantId ?? null,
+            })),
+          },
+        },
+      }
+    );
+
+    await order.populate("userId", "name email");
+    res.status(201).json(order);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,7 +1,19 @@
 import { Request, Response, NextFunction } from "express";
 import { Category } from "../models";
-import { CreateCategoryInput } from "../schemas";
+import {
+  CreateCategoryInput,
+  DeleteCategoryInput,
+  paginationQuerySchema,
+  UpdateCategoryInput,
+} from "../schemas";
 import { TypedRequest } from "../types";
+import { deleteCategoryWithPolicy, resolveDeletePolicy } from "../utils/deletePolicies";
+import {
+  buildCategoryTree,
+  placeCategory,
+  refreshDescendants,
+} from "../utils/categoryTree";
+import { paginatedResponse, paginateFind } from "../utils/pagination";
 
 export const getCategories = async (
   req: Request,
@@ -9,8 +21,29 @@ export const getCategories = async (
   next: NextFunction
 ) => {
   try {
-    const categories = await Category.find();
-    res.json(categories);
+    const page = await paginateFind(
+      Category,
+      {},
+      { field: "name", direction: 1 },
+      paginationQuerySchema.parse(req.query)
+    );
+    res.json(paginatedResponse(req, page));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCategoryTree = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rootId = req.query.rootId as string | undefined;
+    if (rootId && !(await Category.exists({ _id: rootId }))) {
+      return res.status(404).json({ error: "Category not found" });
+    }
+    res.json(await buildCategoryTree(rootId));
   } catch (error) {
     next(error);
   }
@@ -38,7 +71,11 @@ export const createCategory = async (
   next: NextFunction
 ) => {
   try {
-    const category = new Category(req.body);
+    const placement = await placeCategory(
+      req.body.name,
+      req.body.parentId ?? null
+    );
+    const category = new Category({ name: req.body.name, ...placement });
     const savedCategory = await category.save();
     res.status(201).json(savedCategory);
   } catch (error) {
@@ -47,18 +84,37 @@ export const createCategory = async (
 };
 
 export const updateCategory = async (
-  req: Request,
+  req: TypedRequest<UpdateCategoryInput["body"]>,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const category = await Category.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
-      runValidators: true,
-    });
-    if (!category) {
+    const existing = await Category.findById(req.params.id);
+    if (!existing) {
       return res.status(404).json({ error: "Category not found" });
     }
+
+    const name = req.body.name ?? existing.name;
+    const parentId =
+      req.body.parentId === undefined ? existing.parentId : req.body.parentId;
+    const placement = await placeCategory(name, parentId, req.params.id);
+
+    // Guard on updatedAt so a concurrent edit of the same category isn't overwritten
+    const category = await Category.findOneAndUpdate(
+      { _id: req.params.id, updatedAt: existing.get("updatedAt") },
+      { name, ...placement },
+      { new: true, runValidators: true }
+    );
+    if (!category) {
+      return res
+        .status(409)
+        .json({ error: "Category was modified concurrently, please retry" });
+    }
+
+    // Renaming or moving changes the breadcrumbs of everything below
+    if (category.path !== existing.path) {
+      await refreshDescendants(category);
+    }
     res.json(category);
   } catch (error) {
     next(error);
@@ -71,7 +127,12 @@ export const deleteCategory = async (
   next: NextFunction
 ) => {
   try {
-    const category = await Category.findByIdAndDelete(req.params.id);
+    const { policy, reassignTo } = req.query as DeleteCategoryInput["query"];
+    const category = await deleteCategoryWithPolicy(
+      req.params.id,
+      resolveDeletePolicy("category", policy),
+      reassignTo
+    );
     if (!category) {
       return res.status(404).json({ error: "Category not found" });
     }
@@ -0,0 +1,90 @@
+import { Request, Response, NextFunction } from "express";
+import { Coupon } from "../models";
+import { CreateCouponInput, paginationQuerySchema } from "../schemas";
+import { TypedRequest } from "../types";
+import { paginatedResponse, paginateFind } from "../utils/pagination";
+
+export const getCoupons = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const page = await paginateFind(
+      Coupon,
+      {},
+      { field: "createdAt", direction: -1 },
+      paginationQuerySchema.parse(req.query)
+    );
+    res.json(paginatedResponse(req, page));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCouponById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon) {
+      return res.status(404).json({ error: "Coupon not found" });
+    }
+    res.json(coupon);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createCoupon = async (
+  req: TypedRequest<CreateCouponInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const coupon = new Coupon(req.body);
+    const savedCoupon = await coupon.save();
+    res.status(201).json(savedCoupon);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateCoupon = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // usedCount is maintained by order pricing and cannot be edited
+    const { usedCount, ...changes } = req.body;
+    const coupon = await Coupon.findByIdAndUpdate(req.params.id, changes, {
+      new: true,
+      runValidators: true,
+    });
+    if (!coupon) {
+      return res.status(404).json({ error: "Coupon not found" });
+    }
+    res.json(coupon);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteCoupon = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const coupon = await Coupon.findByIdAndDelete(req.params.id);
+    if (!coupon) {
+      return res.status(404).json({ error: "Coupon not found" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
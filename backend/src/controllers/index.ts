@@ -2,3 +2,11 @@ export * from "./users";
 export * from "./categories";
 export * from "./products";
 export * from "./orders";
+export * from "./cart";
+export * from "./coupons";
+export * from "./payments";
+export * from "./returns";
+export * from "./reviews";
+export * from "./productImages";
+export * from "./trash";
+export * from "./productPrices";
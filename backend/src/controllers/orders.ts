@@ -1,7 +1,44 @@
 import { Request, Response, NextFunction } from "express";
-import { Order, User, Product } from "../models";
-import { CreateOrderInput } from "../schemas";
-import { TypedRequest } from "../types";
+import { Order, Return } from "../models";
+import { OrderStatus } from "../models/Order";
+import {
+  CreateOrderInput,
+  getOrdersSchema,
+  OrderTransitionInput,
+  paginationQuerySchema,
+} from "../schemas";
+import { AuthRequest, TypedRequest } from "../types";
+import { transitionOrderStatus } from "../utils/orderStatus";
+import {
+  diffStock,
+  holdsStock,
+  releaseStock,
+  reserveStock,
+} from "../utils/inventory";
+import { buildOrderItems } from "../utils/orderItems";
+import { priceOrder } from "../utils/pricing";
+import {
+  redeemCoupon,
+  redeemCouponForUser,
+  releaseCoupon,
+  releaseCouponForUser,
+} from "../utils/coupons";
+import { placeOrder } from "../utils/checkout";
+import { paginatedResponse, paginateFind } from "../utils/pagination";
+import { hasPermission, ownedBy } from "../utils/permissions";
+import {
+  assignInvoiceNumber,
+  INVOICE_USER_FIELDS,
+  renderInvoiceHtml,
+  renderInvoicePdf,
+} from "../utils/invoices";
+
+// Orders of other customers are reported as missing rather than forbidden,
+// so their IDs can't be probed
+const visibleOrder = (req: AuthRequest) => ({
+  _id: req.params.id,
+  ...ownedBy(req.user!, "orders:manage"),
+});
 
 export const getOrders = async (
   req: Request,
@@ -9,24 +46,61 @@ export const getOrders = async (
   next: NextFunction
 ) => {
   try {
-    const orders = await Order.find()
-      .populate("userId", "name email")
-      .populate("products.productId", "name price");
-    res.json(orders);
+    const { userId, from, to, minTotal, maxTotal, limit, cursor } =
+      getOrdersSchema.shape.query.parse(req.query);
+
+    const createdAt: Record<string, Date> = {};
+    if (from) createdAt.$gte = from;
+    if (to) createdAt.$lte = to;
+    const total: Record<string, number> = {};
+    if (minTotal !== undefined) total.$gte = minTotal;
+    if (maxTotal !== undefined) total.$lte = maxTotal;
+
+    const filter = {
+      ...(userId && { userId }),
+      ...(Object.keys(createdAt).length > 0 && { createdAt }),
+      ...(Object.keys(total).length > 0 && { total }),
+    };
+
+    const page = await paginateFind(
+      Order,
+      filter,
+      { field: "createdAt", direction: -1 },
+      { limit, cursor },
+      { path: "userId", select: "name email" }
+    );
+    res.json(paginatedResponse(req, page));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMyOrders = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const page = await paginateFind(
+      Order,
+      { userId: req.user!.userId },
+      { field: "createdAt", direction: -1 },
+      paginationQuerySchema.parse(req.query)
+    );
+    res.json(paginatedResponse(req, page));
   } catch (error) {
     next(error);
   }
 };
 
 export const getOrderById = async (
-  req: Request,
+  req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const order = await Order.findById(req.params.id)
-      .populate("userId", "name email")
-      .populate("products.productId", "name price");
+    const order = await Order.findOne(visibleOrder(req))
+      .populate("userId", "name email");
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
     }
@@ -36,38 +110,54 @@ export const getOrderById = async (
   }
 };
 
-export const createOrder = async (
-  req: TypedRequest<CreateOrderInput["body"]>,
+export const getOrderInvoice = async (
+  req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // Check if user exists
-    const user = await User.findById(req.body.userId);
-    if (!user) {
-      return res.status(400).json({ error: "User not found" });
-    }
-
-    // Check if all products exist and calculate total
-    let total = 0;
-    for (const orderProduct of req.body.products) {
-      const product = await Product.findById(orderProduct.productId);
-      if (!product) {
-        return res
-          .status(400)
-          .json({ error: `Product ${orderProduct.productId} not found` });
-      }
-      total += product.price * orderProduct.quantity;
+    if (!(await Order.exists(visibleOrder(req)))) {
+      return res.status(404).json({ error: "Order not found" });
     }
+    const invoiced = await assignInvoiceNumber(req.params.id);
+    const order = await invoiced.populate("userId", INVOICE_USER_FIELDS);
 
-    const order = new Order({
-      ...req.body,
-      total,
-    });
+    // PDF unless HTML is asked for explicitly or preferred by the client
+    const wantsHtml =
+      req.query.format === "html" ||
+      (!req.query.format && req.accepts(["application/pdf", "text/html"]) === "text/html");
+
+    if (wantsHtml) {
+      return res.type("html").send(renderInvoiceHtml(order));
+    }
 
-    const savedOrder = await order.save();
+    const pdf = await renderInvoicePdf(order);
+    res
+      .type("application/pdf")
+      .set(
+        "Content-Disposition",
+        `attachment; filename="${order.invoiceNumber}.pdf"`
+      )
+      .send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createOrder = async (
+  req: AuthRequest & TypedRequest<CreateOrderInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { products, couponCode, shippingRegion } = req.body;
+    const savedOrder = await placeOrder({
+      userId: req.user!.userId,
+      products,
+      couponCode,
+      shippingRegion,
+    });
     await savedOrder.populate("userId", "name email");
-    await savedOrder.populate("products.productId", "name price");
 
     res.status(201).json(savedOrder);
   } catch (error) {
@@ -76,35 +166,144 @@ export const createOrder = async (
 };
 
 export const updateOrder = async (
-  req: Request,
+  req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // If updating products, recalculate total
-    if (req.body.products) {
-      let total = 0;
-      for (const orderProduct of req.body.products) {
-        const product = await Product.findById(orderProduct.productId);
-        if (!product) {
-          return res
-            .status(400)
-            .json({ error: `Product ${orderProduct.productId} not found` });
-        }
-        total += product.price * orderProduct.quantity;
+    const existingOrder = await Order.findOne(visibleOrder(req));
+    if (!existingOrder) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    // Customers can't hand their order over to someone else
+    if (req.body.userId && !hasPermission(req.user!.role, "orders:manage")) {
+      return res
+        .status(403)
+        .json({ error: "Only staff can move an order to another customer" });
+    }
+
+    // Once an order is paid or invoiced its contents are frozen
+    if (existingOrder.status !== "pending") {
+      return res.status(409).json({
+        error: `Order cannot be edited once it is ${existingOrder.status}`,
+      });
+    }
+    if (existingOrder.invoiceSeq) {
+      return res
+        .status(409)
+        .json({ error: "Order cannot be edited once it is invoiced" });
+    }
+
+    // Only userId, products, the coupon and the region are editable, status goes through the transition endpoints
+    const update: Record<string, unknown> = {};
+    if (req.body.userId) {
+      update.userId = req.body.userId;
+    }
+
+    // Keep the current coupon unless the request sets a new one or removes it with null
+    const currentDiscount = existingOrder.discount;
+    const couponCode =
+      req.body.couponCode === undefined
+        ? currentDiscount?.code
+        : req.body.couponCode;
+    const couponUnchanged =
+      !!currentDiscount &&
+      !!couponCode &&
+      couponCode.trim().toUpperCase() === currentDiscount.code;
+
+    // Reprice when lines, the coupon or the region change, lines keep their snapshotted prices
+    let newDiscount = currentDiscount;
+    if (
+      req.body.products ||
+      req.body.couponCode !== undefined ||
+      req.body.shippingRegion
+    ) {
+      const { items } = req.body.products
+        ? await buildOrderItems(req.body.products, existingOrder.products)
+        : { items: existingOrder.products };
+      const pricing = await priceOrder(items, {
+        userId: (update.userId as string) || String(existingOrder.userId),
+        couponCode,
+        orderId: String(existingOrder._id),
+        couponAlreadyApplied: couponUnchanged,
+        region: req.body.shippingRegion || existingOrder.shippingRegion,
+      });
+      Object.assign(update, { products: items, ...pricing });
+      newDiscount = pricing.discount;
+    }
+    const newCouponId = couponUnchanged ? undefined : newDiscount?.couponId;
+    const oldCouponId = couponUnchanged ? undefined : currentDiscount?.couponId;
+    // A kept coupon moves to the new customer's per-customer count
+    const oldOwner = existingOrder.userId;
+    const newOwner = (update.userId as string) || oldOwner;
+    const movedCouponId =
+      couponUnchanged && String(newOwner) !== String(oldOwner)
+        ? currentDiscount!.couponId
+        : undefined;
+
+    // Reserve any extra quantities and a new coupon up front, release what was
+    // given up only once the edit is stored
+    const stockChange = req.body.products
+      ? diffStock(existingOrder.products, req.body.products)
+      : { reserve: [], release: [] };
+    await reserveStock(stockChange.reserve);
+    try {
+      if (newCouponId) {
+        await redeemCoupon(newCouponId, newOwner);
+      }
+      if (movedCouponId) {
+        await redeemCouponForUser(movedCouponId, newOwner);
       }
-      req.body.total = total;
+    } catch (error) {
+      await releaseStock(stockChange.reserve);
+      throw error;
     }
 
-    const order = await Order.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
-      runValidators: true,
-    })
-      .populate("userId", "name email")
-      .populate("products.productId", "name price");
+    const rollback = async () => {
+      await releaseStock(stockChange.reserve);
+      if (newCouponId) {
+        await releaseCoupon(newCouponId, newOwner);
+      }
+      if (movedCouponId) {
+        await releaseCouponForUser(movedCouponId, newOwner);
+      }
+    };
+
+    // Guard on updatedAt so a concurrent edit cannot invalidate the stock diff
+    let order;
+    try {
+      order = await Order.findOneAndUpdate(
+        {
+          _id: req.params.id,
+          status: "pending",
+          updatedAt: existingOrder.get("updatedAt"),
+        },
+        update,
+        {
+          new: true,
+          runValidators: true,
+        }
+      )
+        .populate("userId", "name email");
+    } catch (error) {
+      await rollback();
+      throw error;
+    }
 
     if (!order) {
-      return res.status(404).json({ error: "Order not found" });
+      await rollback();
+      return res
+        .status(409)
+        .json({ error: "Order was changed by another request, please retry" });
+    }
+
+    await releaseStock(stockChange.release);
+    if (oldCouponId) {
+      await releaseCoupon(oldCouponId, oldOwner);
+    }
+    if (movedCouponId) {
+      await releaseCouponForUser(movedCouponId, oldOwner);
     }
     res.json(order);
   } catch (error) {
@@ -112,15 +311,67 @@ export const updateOrder = async (
   }
 };
 
+/**
+ * Build a handler that moves an order to the given status
+ */
+export const transitionOrder =
+  (status: OrderStatus) =>
+  async (
+    req: AuthRequest & TypedRequest<OrderTransitionInput["body"]>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      if (!(await Order.exists(visibleOrder(req)))) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      // Customers may only cancel before paying, later cancellations need a refund
+      const updated = await transitionOrderStatus(req.params.id, status, {
+        changedBy: req.user?.userId,
+        note: req.body.note,
+        allowedFrom:
+          status === "cancelled" && !hasPermission(req.user!.role, "orders:manage")
+            ? ["pending"]
+            : undefined,
+      });
+      const order = await updated.populate("userId", "name email");
+      res.json(order);
+    } catch (error) {
+      next(error);
+    }
+  };
+
 export const deleteOrder = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const order = await Order.findByIdAndDelete(req.params.id);
+    // Returns and their refunds must stay linked to the original order
+    if (await Return.exists({ orderId: req.params.id })) {
+      return res
+        .status(409)
+        .json({ error: "Order has returns and cannot be deleted" });
+    }
+
+    // Invoice numbers must stay gap-free, so invoiced orders are kept
+    const order = await Order.findOneAndDelete({
+      _id: req.params.id,
+      invoiceSeq: { $exists: false },
+    });
     if (!order) {
-      return res.status(404).json({ error: "Order not found" });
+      const exists = await Order.exists({ _id: req.params.id });
+      return exists
+        ? res.status(409).json({ error: "Invoiced orders cannot be deleted" })
+        : res.status(404).json({ error: "Order not found" });
+    }
+
+    // Put reserved items back on the shelf unless they already shipped or were released on cancel
+    if (holdsStock(order.status)) {
+      await releaseStock(order.products);
+    }
+    if (order.discount && order.status !== "cancelled") {
+      await releaseCoupon(order.discount.couponId, order.userId);
     }
     res.status(204).send();
   } catch (error) {
@@ -129,12 +380,12 @@ export const deleteOrder = async (
 };
 
 export const getOrderTemplate = async (
-  req: Request,
+  req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const order = await Order.findById(req.params.id);
+    const order = await Order.findOne(visibleOrder(req));
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
     }
@@ -144,6 +395,7 @@ export const getOrderTemplate = async (
       userId: order.userId,
       products: order.products.map(p => ({
         productId: p.productId,
+        ...(p.variantId && { variantId: p.variantId }),
         quantity: p.quantity
       }))
     };
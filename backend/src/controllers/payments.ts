@@ -0,0 +1,226 @@
+import { Request, Response, NextFunction } from "express";
+import { Order, Payment } from "../models";
+import {
+  CreatePaymentInput,
+  getPaymentsSchema,
+  RefundPaymentInput,
+} from "../schemas";
+import { AuthRequest, RawBodyRequest, TypedRequest } from "../types";
+import {
+  getPaymentProvider,
+  PAYMENT_SIGNATURE_HEADER,
+} from "../utils/payments";
+import {
+  issueRefund,
+  recordCapture,
+  recordFailure,
+} from "../utils/paymentLedger";
+import { paginatedResponse, paginateFind } from "../utils/pagination";
+import { ownedBy } from "../utils/permissions";
+
+const CURRENCY = process.env.CURRENCY || "EUR";
+
+export const getPayments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { orderId, limit, cursor } = getPaymentsSchema.shape.query.parse(
+      req.query
+    );
+    const filter = orderId ? { orderId } : {};
+
+    const page = await paginateFind(
+      Payment,
+      filter,
+      { field: "createdAt", direction: -1 },
+      { limit, cursor }
+    );
+    res.json(paginatedResponse(req, page));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPaymentById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const payment = await Payment.findOne({
+      _id: req.params.id,
+      ...ownedBy(req.user!, "payments:manage"),
+    });
+    if (!payment) {
+      return res.status(404).json({ error: "Payment not found" });
+    }
+    res.json(payment);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createPayment = async (
+  req: AuthRequest & TypedRequest<CreatePaymentInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const order = await Order.findOne({
+      _id: req.body.orderId,
+      ...ownedBy(req.user!, "orders:manage"),
+    });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (order.status !== "pending") {
+      return res
+        .status(409)
+        .json({ error: `Cannot pay for an order that is ${order.status}` });
+    }
+    // One live payment per order, so the customer can't be charged twice
+    if (await Payment.exists({ orderId: order._id, status: "requires_capture" })) {
+      return res
+        .status(409)
+        .json({ error: "Order already has a payment awaiting capture" });
+    }
+
+    const provider = getPaymentProvider(req.body.provider);
+    const intent = await provider.createIntent({
+      amount: order.total,
+      currency: CURRENCY,
+      orderId: String(order._id),
+      paymentMethod: req.body.paymentMethod,
+    });
+
+    const payment = await Payment.create({
+      orderId: order._id,
+      userId: order.userId,
+      provider: provider.name,
+      providerRef: intent.providerRef,
+      amount: order.total,
+      currency: CURRENCY,
+      status: intent.status,
+    });
+
+    // The client secret is handed to the client once and never stored
+    res.status(201).json({ ...payment.toJSON(), clientSecret: intent.clientSecret });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const capturePayment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const payment = await Payment.findOne({
+      _id: req.params.id,
+      ...ownedBy(req.user!, "payments:manage"),
+    });
+    if (!payment) {
+      return res.status(404).json({ error: "Payment not found" });
+    }
+    if (payment.status !== "requires_capture") {
+      return res
+        .status(409)
+        .json({ error: `A ${payment.status} payment cannot be captured` });
+    }
+
+    // The order may have been edited or paid otherwise since the payment was started;
+    // failing the attempt lets the customer start a new one
+    const order = await Order.findById(payment.orderId).select("total status");
+    if (!order || order.status !== "pending" || order.total !== payment.amount) {
+      await recordFailure(payment, "Order changed after the payment was started");
+      return res.status(409).json({
+        error: "The order changed after this payment was started, start a new payment",
+      });
+    }
+
+    const result = await getPaymentProvider(payment.provider).capture(
+      payment.providerRef,
+      payment.amount
+    );
+
+    const updated =
+      result.status === "captured"
+        ? await recordCapture(payment)
+        : await recordFailure(payment, result.failureReason || "Payment failed");
+
+    res.status(result.status === "captured" ? 200 : 402).json(updated);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refundPayment = async (
+  req: TypedRequest<RefundPaymentInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const payment = await issueRefund(
+      req.params.id,
+      req.body.amount,
+      req.body.reason
+    );
+    res.json(payment);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handlePaymentWebhook = async (
+  req: RawBodyRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const provider = getPaymentProvider(req.query.provider as string | undefined);
+    const event = provider.verifyWebhook(
+      req.rawBody || "",
+      req.header(PAYMENT_SIGNATURE_HEADER)
+    );
+
+    const payment = await Payment.findOne({
+      provider: provider.name,
+      providerRef: event.providerRef,
+    });
+    if (!payment) {
+      return res.status(404).json({ error: "Payment not found" });
+    }
+
+    // Providers retry deliveries, so an event we have seen is acknowledged and skipped
+    if (event.id && payment.events.some((e) => e.eventId === event.id)) {
+      return res.json({ received: true, duplicate: true });
+    }
+
+    const eventInfo = { eventId: event.id, type: event.type };
+    switch (event.type) {
+      case "payment.succeeded":
+        await recordCapture(payment, eventInfo);
+        break;
+      case "payment.failed":
+        await recordFailure(
+          payment,
+          event.failureReason || "Payment failed",
+          eventInfo
+        );
+        break;
+      default:
+        // Refunds are initiated through our API, the callback is only logged
+        await Payment.updateOne(
+          { _id: payment._id },
+          { $push: { events: { ...eventInfo, receivedAt: new Date() } } }
+        );
+    }
+
+    res.json({ received: true });
+  } catch (error) {
+    next(error);
+  }
+};
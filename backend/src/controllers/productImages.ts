@@ -0,0 +1,168 @@
+import { Request, Response, NextFunction } from "express";
+import { Product } from "../models";
+import { IProductImage } from "../models/Product";
+import { ReorderProductImagesInput } from "../schemas";
+import { TypedRequest } from "../types";
+import {
+  ensurePrimaryImage,
+  MAX_IMAGES_PER_PRODUCT,
+  removeProductImageFiles,
+  storeProductImage,
+} from "../utils/productImages";
+
+export const uploadProductImages = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    if (files.length === 0) {
+      return res
+        .status(400)
+        .json({ error: 'Attach at least one image in the "images" field' });
+    }
+
+    const product = await Product.findById(req.params.id).select("images");
+    if (!product) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+    if (product.images.length + files.length > MAX_IMAGES_PER_PRODUCT) {
+      return res.status(400).json({
+        error: `A product can have at most ${MAX_IMAGES_PER_PRODUCT} images`,
+      });
+    }
+
+    const stored: IProductImage[] = [];
+    try {
+      for (const file of files) {
+        stored.push(await storeProductImage(req.params.id, file));
+      }
+    } catch (error) {
+      await removeProductImageFiles(stored);
+      throw error;
+    }
+
+    // Only append while there is still room, another upload may have filled it
+    const result = await Product.updateOne(
+      {
+        _id: req.params.id,
+        [`images.${MAX_IMAGES_PER_PRODUCT - stored.length}`]: { $exists: false },
+      },
+      { $push: { images: { $each: stored } } }
+    );
+    if (result.modifiedCount === 0) {
+      await removeProductImageFiles(stored);
+      return res.status(409).json({
+        error: `A product can have at most ${MAX_IMAGES_PER_PRODUCT} images`,
+      });
+    }
+
+    await ensurePrimaryImage(req.params.id);
+    const updated = await Product.findById(req.params.id).populate(
+      "categoryId",
+      "name"
+    );
+    res.status(201).json(updated);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reorderProductImages = async (
+  req: TypedRequest<ReorderProductImagesInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { imageIds } = req.body;
+    const product = await Product.findById(req.params.id).select("images");
+    if (!product) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+
+    const images = new Map(
+      product.images.map((image) => [String(image._id), image])
+    );
+    if (
+      imageIds.length !== images.size ||
+      imageIds.some((id) => !images.has(id))
+    ) {
+      return res.status(400).json({
+        error: "imageIds must list every image of the product exactly once",
+      });
+    }
+
+    // Only rewrite the array if no image was added or removed in the meantime
+    const updated = await Product.findOneAndUpdate(
+      {
+        _id: req.params.id,
+        images: { $size: imageIds.length },
+        "images._id": { $all: imageIds },
+      },
+      { $set: { images: imageIds.map((id) => images.get(id)) } },
+      { new: true }
+    ).populate("categoryId", "name");
+    if (!updated) {
+      return res
+        .status(409)
+        .json({ error: "Images were changed concurrently, please retry" });
+    }
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const setPrimaryProductImage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id, imageId } = req.params;
+    const product = await Product.findOneAndUpdate(
+      { _id: id, "images._id": imageId },
+      {
+        $set: {
+          "images.$[primary].primary": true,
+          "images.$[other].primary": false,
+        },
+      },
+      {
+        new: true,
+        arrayFilters: [{ "primary._id": imageId }, { "other._id": { $ne: imageId } }],
+      }
+    ).populate("categoryId", "name");
+    if (!product) {
+      return res.status(404).json({ error: "Product image not found" });
+    }
+    res.json(product);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteProductImage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id, imageId } = req.params;
+    const before = await Product.findOneAndUpdate(
+      { _id: id, "images._id": imageId },
+      { $pull: { images: { _id: imageId } } }
+    ).select("images");
+    if (!before) {
+      return res.status(404).json({ error: "Product image not found" });
+    }
+
+    const removed = before.images.filter((image) => String(image._id) === imageId);
+    await removeProductImageFiles(removed);
+    await ensurePrimaryImage(id);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
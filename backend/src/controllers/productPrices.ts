@@ -0,0 +1,135 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { PriceChange, Product } from "../models";
+import { IProductSale } from "../models/Product";
+import { CreateSaleInput, getPriceHistorySchema } from "../schemas";
+import { AuthRequest, TypedRequest } from "../types";
+import { paginatedResponse, paginateFind } from "../utils/pagination";
+import {
+  LOWEST_PRICE_DAYS,
+  lowestPrices,
+  recordSale,
+} from "../utils/priceHistory";
+import { findVariant } from "../utils/variants";
+
+export const getPriceHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { variantId, days = LOWEST_PRICE_DAYS, limit, cursor } =
+      getPriceHistorySchema.shape.query.parse(req.query);
+    const product = await Product.findById(req.params.id);
+    if (!product) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+    if (variantId && !findVariant(product, variantId)) {
+      return res.status(404).json({ error: "Variant not found" });
+    }
+
+    // A variant's history includes the product-wide entries it inherits
+    const filter = {
+      productId: product._id,
+      ...(variantId && { variantId: { $in: [null, variantId] } }),
+    };
+    const page = await paginateFind(
+      PriceChange,
+      filter,
+      { field: "createdAt", direction: -1 },
+      { limit, cursor },
+      { path: "changedBy", select: "firstName lastName email" }
+    );
+    const lowest = await lowestPrices(product, days, variantId);
+    res.json(
+      paginatedResponse(req, page, { lowestPrices: { days, prices: lowest } })
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createSale = async (
+  req: AuthRequest & TypedRequest<CreateSaleInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const product = await Product.findById(req.params.id);
+    if (!product) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+    const { variantId, price } = req.body;
+    if (variantId && !findVariant(product, variantId)) {
+      return res.status(400).json({ error: "Variant not found on this product" });
+    }
+
+    const now = new Date();
+    const sale = {
+      _id: new mongoose.Types.ObjectId(),
+      variantId: variantId ? new mongoose.Types.ObjectId(variantId) : null,
+      price,
+      startsAt: req.body.startsAt ? new Date(req.body.startsAt) : now,
+      endsAt: new Date(req.body.endsAt),
+    } as IProductSale;
+
+    // Ended sales only live on in the price history
+    await Product.updateOne(
+      { _id: product._id },
+      { $pull: { sales: { endsAt: { $lte: now } } } }
+    );
+    const updated = await Product.findByIdAndUpdate(
+      product._id,
+      { $push: { sales: sale } },
+      { new: true, runValidators: true }
+    ).populate("categoryId", "name");
+    if (!updated) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+
+    await recordSale(product._id as mongoose.Types.ObjectId, sale, req.user?.userId);
+    res.status(201).json(updated);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const endSale = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id, saleId } = req.params;
+    const before = await Product.findOneAndUpdate(
+      { _id: id, "sales._id": saleId },
+      { $pull: { sales: { _id: saleId } } }
+    ).select("sales");
+    if (!before) {
+      return res.status(404).json({ error: "Sale not found" });
+    }
+
+    // A sale that hasn't started is cancelled, a running one ends now
+    const sale = before.sales.find((s) => String(s._id) === saleId)!;
+    const now = new Date();
+    const endsAt = new Date(
+      Math.min(sale.endsAt.getTime(), Math.max(sale.startsAt.getTime(), now.getTime()))
+    );
+    if (endsAt.getTime() !== sale.endsAt.getTime()) {
+      await recordSale(
+        id,
+        {
+          _id: sale._id,
+          variantId: sale.variantId,
+          price: sale.price,
+          startsAt: sale.startsAt,
+          endsAt,
+        },
+        req.user?.userId
+      );
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
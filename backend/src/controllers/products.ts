@@ -1,7 +1,31 @@
 import { Request, Response, NextFunction } from "express";
 import { Product, Category } from "../models";
-import { CreateProductInput } from "../schemas";
-import { TypedRequest } from "../types";
+import {
+  CreateProductInput,
+  DeleteProductInput,
+  exportProductsSchema,
+  getRelatedProductsSchema,
+  importProductsSchema,
+  productSearchQuerySchema,
+  UpdateProductInput,
+} from "../schemas";
+import { AuthRequest, TypedRequest } from "../types";
+import { paginatedResponse } from "../utils/pagination";
+import { searchProducts } from "../utils/productSearch";
+import { withDescendants } from "../utils/categoryTree";
+import { deleteProductWithPolicy, resolveDeletePolicy } from "../utils/deletePolicies";
+import { assertValidVariants, toVariantDocs } from "../utils/variants";
+import {
+  CATALOG_COLUMNS,
+  CatalogFormat,
+  createCategoriesByDefault,
+  importCatalog,
+  parseCatalog,
+  toCatalogEntry,
+} from "../utils/catalog";
+import { toCsvLine } from "../utils/csv";
+import { recordPriceChanges } from "../utils/priceHistory";
+import { relatedProducts } from "../utils/recommendations";
 
 export const getProducts = async (
   req: Request,
@@ -9,11 +33,20 @@ export const getProducts = async (
   next: NextFunction
 ) => {
   try {
-    const { categoryId } = req.query;
-    const filter = categoryId ? { categoryId } : {};
+    // validate() only checks the query, parse again to get coerced values
+    const { categoryId, includeDescendants, limit, cursor, ...query } =
+      productSearchQuerySchema.parse(req.query);
 
-    const products = await Product.find(filter).populate("categoryId", "name");
-    res.json(products);
+    const categoryIds =
+      categoryId && includeDescendants
+        ? await withDescendants(categoryId)
+        : categoryId;
+
+    const { page, total, facets } = await searchProducts(
+      { ...query, categoryIds },
+      { limit, cursor }
+    );
+    res.json(paginatedResponse(req, page, { total, facets }));
   } catch (error) {
     next(error);
   }
@@ -38,8 +71,25 @@ export const getProductById = async (
   }
 };
 
+export const getRelatedProducts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { limit } = getRelatedProductsSchema.shape.query.parse(req.query);
+    const related = await relatedProducts(req.params.id, limit);
+    if (!related) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+    res.json(related);
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const createProduct = async (
-  req: TypedRequest<CreateProductInput["body"]>,
+  req: AuthRequest & TypedRequest<CreateProductInput["body"]>,
   res: Response,
   next: NextFunction
 ) => {
@@ -50,8 +100,27 @@ export const createProduct = async (
       return res.status(400).json({ error: "Category not found" });
     }
 
-    const product = new Product(req.body);
+    // Ratings come from reviews, images from uploads, sales from the sales
+    // endpoints and deletedAt from the trash, none of them is set directly
+    const {
+      options = [],
+      variants = [],
+      ratingAverage,
+      ratingCount,
+      images,
+      sales,
+      deletedAt,
+      ...fields
+    } = req.body as CreateProductInput["body"] & Record<string, unknown>;
+    assertValidVariants(options, variants);
+
+    const product = new Product({
+      ...fields,
+      options,
+      variants: toVariantDocs(variants),
+    });
     const savedProduct = await product.save();
+    await recordPriceChanges(null, savedProduct, req.user?.userId);
     await savedProduct.populate("categoryId", "name");
     res.status(201).json(savedProduct);
   } catch (error) {
@@ -60,7 +129,7 @@ export const createProduct = async (
 };
 
 export const updateProduct = async (
-  req: Request,
+  req: AuthRequest & TypedRequest<UpdateProductInput["body"]>,
   res: Response,
   next: NextFunction
 ) => {
@@ -73,14 +142,50 @@ export const updateProduct = async (
       }
     }
 
-    const product = await Product.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
+    const {
+      options,
+      variants,
+      ratingAverage,
+      ratingCount,
+      images,
+      sales,
+      deletedAt,
+      ...fields
+    } = req.body as UpdateProductInput["body"] & Record<string, unknown>;
+    const update: Record<string, unknown> = { ...fields };
+
+    // Option axes and variants are checked together against what the product ends up with
+    if (options || variants) {
+      const existing = await Product.findById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      const nextOptions = options ?? existing.options;
+      const nextVariants = variants
+        ? toVariantDocs(variants, existing)
+        : existing.variants;
+      assertValidVariants(nextOptions, nextVariants);
+
+      if (options) update.options = options;
+      if (variants) update.variants = nextVariants;
+    }
+
+    // Take the prices from before the update atomically with it, for the price history
+    const previous = await Product.findByIdAndUpdate(req.params.id, update, {
       runValidators: true,
-    }).populate("categoryId", "name");
+    });
+    if (!previous) {
+      return res.status(404).json({ error: "Product not found" });
+    }
 
+    const product = await Product.findById(req.params.id).populate(
+      "categoryId",
+      "name"
+    );
     if (!product) {
       return res.status(404).json({ error: "Product not found" });
     }
+    await recordPriceChanges(previous, product, req.user?.userId);
     res.json(product);
   } catch (error) {
     next(error);
@@ -93,7 +198,11 @@ export const deleteProduct = async (
   next: NextFunction
 ) => {
   try {
-    const product = await Product.findByIdAndDelete(req.params.id);
+    const { policy } = req.query as DeleteProductInput["query"];
+    const product = await deleteProductWithPolicy(
+      req.params.id,
+      resolveDeletePolicy("product", policy)
+    );
     if (!product) {
       return res.status(404).json({ error: "Product not found" });
     }
@@ -102,3 +211,97 @@ export const deleteProduct = async (
     next(error);
   }
 };
+
+export const importProducts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // validate() only checks the query, parse again to get the flags as booleans
+    const query = importProductsSchema.shape.query.parse(req.query);
+    const dryRun = query.dryRun ?? false;
+    const createCategories = query.createCategories ?? createCategoriesByDefault();
+
+    // The catalog comes as an uploaded file or as a JSON request body
+    let format: CatalogFormat;
+    let records;
+    if (req.file) {
+      format =
+        query.format ??
+        (/\.json$/i.test(req.file.originalname) ||
+        req.file.mimetype === "application/json"
+          ? "json"
+          : "csv");
+      records = parseCatalog(req.file.buffer.toString("utf8"), format);
+    } else if (req.is("application/json")) {
+      format = "json";
+      records = parseCatalog(JSON.stringify(req.body), format);
+    } else {
+      return res.status(400).json({
+        error: 'Upload the catalog in the "file" field or send it as a JSON body',
+      });
+    }
+
+    const report = await importCatalog(records, format, {
+      dryRun,
+      createCategories,
+      changedBy: (req as AuthRequest).user?.userId,
+    });
+    res.json(report);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const exportProducts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { format = "csv", categoryId } =
+      exportProductsSchema.shape.query.parse(req.query);
+    const filter = categoryId ? { categoryId: { $in: categoryId } } : {};
+    const products = Product.find(filter)
+      .sort({ createdAt: 1 })
+      .populate("categoryId", "name path")
+      .cursor();
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="products-${date}.${format}"`
+    );
+
+    // Stream row by row so large catalogs don't have to fit in memory
+    if (format === "csv") {
+      res.type("text/csv");
+      res.write(toCsvLine([...CATALOG_COLUMNS]));
+      for await (const product of products) {
+        const entry = toCatalogEntry(product);
+        res.write(
+          toCsvLine(
+            CATALOG_COLUMNS.map((column) =>
+              column === "options" || column === "variants"
+                ? JSON.stringify(entry[column])
+                : entry[column]
+            )
+          )
+        );
+      }
+    } else {
+      res.type("application/json");
+      res.write("[");
+      let first = true;
+      for await (const product of products) {
+        res.write(`${first ? "" : ","}\n${JSON.stringify(toCatalogEntry(product))}`);
+        first = false;
+      }
+      res.write("\n]\n");
+    }
+    res.end();
+  } catch (error) {
+    next(error);
+  }
+};
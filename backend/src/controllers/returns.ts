@@ -0,0 +1,206 @@
+import { Request, Response, NextFunction } from "express";
+import { Order, Return } from "../models";
+import {
+  CreateReturnInput,
+  getReturnsSchema,
+  paginationQuerySchema,
+  ReceiveReturnInput,
+  RefundReturnInput,
+  ReviewReturnInput,
+} from "../schemas";
+import { AuthRequest, TypedRequest } from "../types";
+import { paginatedResponse, paginateFind } from "../utils/pagination";
+import { ownedBy } from "../utils/permissions";
+import {
+  buildReturnItems,
+  claimReturnQuantities,
+  releaseReturnQuantities,
+  receiveReturn as receiveReturnItems,
+  refundReturn as refundReturnPayment,
+  RETURNABLE_ORDER_STATUSES,
+  transitionReturnStatus,
+} from "../utils/returns";
+
+export const getReturns = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { status, orderId, limit, cursor } = getReturnsSchema.shape.query.parse(
+      req.query
+    );
+    const filter = {
+      ...(status && { status }),
+      ...(orderId && { orderId }),
+    };
+
+    const page = await paginateFind(
+      Return,
+      filter,
+      { field: "createdAt", direction: -1 },
+      { limit, cursor }
+    );
+    res.json(paginatedResponse(req, page));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getOrderReturns = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const order = await Order.exists({
+      _id: req.params.id,
+      ...ownedBy(req.user!, "orders:manage"),
+    });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const page = await paginateFind(
+      Return,
+      { orderId: req.params.id },
+      { field: "createdAt", direction: -1 },
+      paginationQuerySchema.parse(req.query)
+    );
+    res.json(paginatedResponse(req, page));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getReturnById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rma = await Return.findOne({
+      _id: req.params.id,
+      ...ownedBy(req.user!, "returns:manage"),
+    });
+    if (!rma) {
+      return res.status(404).json({ error: "Return not found" });
+    }
+    res.json(rma);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createReturn = async (
+  req: AuthRequest & TypedRequest<CreateReturnInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const order = await Order.findOne({
+      _id: req.params.id,
+      ...ownedBy(req.user!, "orders:manage"),
+    });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+      return res
+        .status(409)
+        .json({ error: `Items cannot be returned while the order is ${order.status}` });
+    }
+
+    const items = await buildReturnItems(order, req.body.items);
+    await claimReturnQuantities(order, items);
+    let rma;
+    try {
+      rma = await Return.create({
+        orderId: order._id,
+        userId: order.userId,
+        items,
+        reason: req.body.reason,
+        status: "requested",
+        statusHistory: [
+          {
+            from: null,
+            to: "requested",
+            changedBy: req.user?.userId,
+            changedAt: new Date(),
+          },
+        ],
+      });
+    } catch (error) {
+      await releaseReturnQuantities(String(order._id), items);
+      throw error;
+    }
+
+    res.status(201).json(rma);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const approveReturn = async (
+  req: AuthRequest & TypedRequest<ReviewReturnInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rma = await transitionReturnStatus(req.params.id, "approved", {
+      changedBy: req.user?.userId,
+      note: req.body.note,
+    });
+    res.json(rma);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const rejectReturn = async (
+  req: AuthRequest & TypedRequest<ReviewReturnInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rma = await transitionReturnStatus(req.params.id, "rejected", {
+      changedBy: req.user?.userId,
+      note: req.body.note,
+    });
+    res.json(rma);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const receiveReturn = async (
+  req: AuthRequest & TypedRequest<ReceiveReturnInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rma = await receiveReturnItems(req.params.id, req.body.condition, {
+      changedBy: req.user?.userId,
+      note: req.body.note,
+    });
+    res.json(rma);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refundReturn = async (
+  req: AuthRequest & TypedRequest<RefundReturnInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rma = await refundReturnPayment(req.params.id, req.body.amount, {
+      changedBy: req.user?.userId,
+      note: req.body.note,
+    });
+    res.json(rma);
+  } catch (error) {
+    next(error);
+  }
+};
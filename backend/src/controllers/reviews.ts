@@ -0,0 +1,185 @@
+import { Request, Response, NextFunction } from "express";
+import { Product, Review } from "../models";
+import { ReviewStatus } from "../models/Review";
+import {
+  CreateReviewInput,
+  getReviewsSchema,
+  ModerateReviewInput,
+  paginationQuerySchema,
+  UpdateReviewInput,
+} from "../schemas";
+import { AuthRequest, TypedRequest } from "../types";
+import { paginatedResponse, paginateFind } from "../utils/pagination";
+import {
+  findVerifiedPurchase,
+  moderateReview as moderateReviewStatus,
+  refreshProductRating,
+} from "../utils/reviews";
+
+// Reviewer details shown next to a public review
+const REVIEWER_FIELDS = "firstName lastName";
+
+export const getProductReviews = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!(await Product.exists({ _id: req.params.id }))) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+
+    const page = await paginateFind(
+      Review,
+      { productId: req.params.id, status: "approved" },
+      { field: "createdAt", direction: -1 },
+      paginationQuerySchema.parse(req.query),
+      { path: "userId", select: REVIEWER_FIELDS }
+    );
+    res.json(paginatedResponse(req, page));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createReview = async (
+  req: AuthRequest & TypedRequest<CreateReviewInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user!.userId;
+    if (!(await Product.exists({ _id: req.params.id }))) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+
+    const order = await findVerifiedPurchase(userId, req.params.id);
+    if (!order) {
+      return res.status(403).json({
+        error: "Only customers who received this product can review it",
+      });
+    }
+
+    if (await Review.exists({ productId: req.params.id, userId })) {
+      return res
+        .status(409)
+        .json({ error: "You have already reviewed this product" });
+    }
+
+    // New reviews wait for moderation before they are public
+    const review = await Review.create({
+      productId: req.params.id,
+      userId,
+      orderId: order._id,
+      rating: req.body.rating,
+      title: req.body.title,
+      body: req.body.body,
+      status: "pending",
+    });
+    res.status(201).json(review);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateReview = async (
+  req: AuthRequest & TypedRequest<UpdateReviewInput["body"]>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { rating, title, body } = req.body;
+    const changes = Object.fromEntries(
+      Object.entries({ rating, title, body }).filter(([, v]) => v !== undefined)
+    );
+
+    // Edited reviews go back to the moderation queue
+    const review = await Review.findOneAndUpdate(
+      {
+        _id: req.params.reviewId,
+        productId: req.params.id,
+        userId: req.user!.userId,
+      },
+      {
+        $set: { ...changes, status: "pending" },
+        $unset: { moderatedBy: 1, moderatedAt: 1, moderationNote: 1 },
+      },
+      { new: true, runValidators: true }
+    );
+    if (!review) {
+      return res.status(404).json({ error: "Review not found" });
+    }
+
+    await refreshProductRating(review.productId);
+    res.json(review);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteReview = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const review = await Review.findOneAndDelete({
+      _id: req.params.reviewId,
+      productId: req.params.id,
+      userId: req.user!.userId,
+    });
+    if (!review) {
+      return res.status(404).json({ error: "Review not found" });
+    }
+
+    await refreshProductRating(review.productId);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getReviews = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { status, productId, limit, cursor } =
+      getReviewsSchema.shape.query.parse(req.query);
+    const filter = {
+      // The moderation queue shows pending reviews unless asked otherwise
+      status: status ?? "pending",
+      ...(productId && { productId }),
+    };
+
+    const page = await paginateFind(
+      Review,
+      filter,
+      { field: "createdAt", direction: 1 },
+      { limit, cursor },
+      { path: "userId", select: `${REVIEWER_FIELDS} email` }
+    );
+    res.json(paginatedResponse(req, page));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const moderateReview =
+  (status: ReviewStatus) =>
+  async (
+    req: AuthRequest & TypedRequest<ModerateReviewInput["body"]>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const review = await moderateReviewStatus(req.params.id, status, {
+        moderatedBy: req.user?.userId,
+        note: req.body.note,
+      });
+      res.json(review);
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from "express";
+import { paginationQuerySchema } from "../schemas";
+import { paginatedResponse } from "../utils/pagination";
+import { listTrash, restoreFromTrash as restore, TrashType } from "../utils/trash";
+
+export const getTrash = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const page = await listTrash(
+      req.params.type as TrashType,
+      paginationQuerySchema.parse(req.query)
+    );
+    res.json(paginatedResponse(req, page));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const restoreFromTrash = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const restored = await restore(req.params.type as TrashType, req.params.id);
+    if (!restored) {
+      return res.status(404).json({ error: "Not found in the trash" });
+    }
+    res.json(restored);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,7 +1,19 @@
 import { Request, Response, NextFunction } from "express";
+import bcrypt from "bcryptjs";
 import { User } from "../models";
-import { CreateUserInput, updateUserSchema } from "../schemas";
-import { TypedRequest } from "../types";
+import {
+  CreateUserInput,
+  DeleteUserInput,
+  getUserRecommendationsSchema,
+  paginationQuerySchema,
+  updateUserSchema,
+} from "../schemas";
+import { AuthRequest, TypedRequest } from "../types";
+import { deleteUserWithPolicy, resolveDeletePolicy } from "../utils/deletePolicies";
+import { paginatedResponse, paginateFind } from "../utils/pagination";
+import { userRecommendations } from "../utils/recommendations";
+import { sendVerificationEmail } from "../utils/emailVerification";
+import { revokeUserSessions } from "../utils/sessions";
 
 export const getUsers = async (
   req: Request,
@@ -9,8 +21,13 @@ export const getUsers = async (
   next: NextFunction
 ) => {
   try {
-    const users = await User.find();
-    res.json(users);
+    const page = await paginateFind(
+      User,
+      {},
+      { field: "createdAt", direction: -1 },
+      paginationQuerySchema.parse(req.query)
+    );
+    res.json(paginatedResponse(req, page));
   } catch (error) {
     next(error);
   }
@@ -46,7 +63,19 @@ export const createUser = async (
         .json({ error: "User with this email already exists" });
     }
 
-    const user = new User(req.body);
+    // Only the delete and restore endpoints move users in and out of the trash,
+    // and only the mailed link verifies an address
+    const {
+      deletedAt,
+      emailVerified,
+      emailVerifiedAt,
+      verificationSentAt,
+      ...fields
+    } = req.body as CreateUserInput["body"] & Record<string, unknown>;
+    const user = new User({
+      ...fields,
+      password: await bcrypt.hash(fields.password, 10),
+    });
     const savedUser = await user.save();
     res.status(201).json(savedUser);
   } catch (error) {
@@ -55,18 +84,74 @@ export const createUser = async (
 };
 
 export const updateUser = async (
-  req: Request,
+  req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const user = await User.findByIdAndUpdate(req.params.id, req.body, {
+    const {
+      deletedAt,
+      emailVerified,
+      emailVerifiedAt,
+      verificationSentAt,
+      ...update
+    } = req.body;
+
+    // Editing your own profile never changes what you may do, which also
+    // keeps the last admin from locking everyone out
+    if (
+      req.params.id === req.user?.userId &&
+      (update.role !== undefined || update.isActive !== undefined)
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You cannot change your own role or active status" });
+    }
+
+    // A new address has to be verified again
+    const current = await User.findById(req.params.id).select("email");
+    if (!current) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const emailChanged =
+      !!update.email && update.email.trim().toLowerCase() !== current.email;
+    if (emailChanged) {
+      Object.assign(update, {
+        emailVerified: false,
+        emailVerifiedAt: null,
+        verificationSentAt: new Date(),
+      });
+    }
+
+    if (update.password) {
+      update.password = await bcrypt.hash(update.password, 10);
+    }
+
+    const user = await User.findByIdAndUpdate(req.params.id, update, {
       new: true,
       runValidators: true,
     });
     if (!user) {
       return res.status(404).json({ error: "User not found" });
     }
+    // A new password logs out every other session; users changing their
+    // own password stay logged in where they made the change
+    if (update.password) {
+      await revokeUserSessions(
+        req.params.id,
+        "password_changed",
+        req.params.id === req.user?.userId ? req.user.sid : undefined
+      );
+    }
+    // A deactivated user is logged out everywhere right away
+    if (update.isActive === false) {
+      await revokeUserSessions(req.params.id, "user_deactivated");
+    }
+    if (emailChanged) {
+      sendVerificationEmail(user).catch((error) =>
+        console.error("Failed to send verification mail:", error)
+      );
+    }
     res.json(user);
   } catch (error) {
     next(error);
@@ -79,7 +164,11 @@ export const deleteUser = async (
   next: NextFunction
 ) => {
   try {
-    const user = await User.findByIdAndDelete(req.params.id);
+    const { policy } = req.query as DeleteUserInput["query"];
+    const user = await deleteUserWithPolicy(
+      req.params.id,
+      resolveDeletePolicy("user", policy)
+    );
     if (!user) {
       return res.status(404).json({ error: "User not found" });
     }
@@ -88,3 +177,19 @@ export const deleteUser = async (
     next(error);
   }
 };
+
+export const getUserRecommendations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { limit } = getUserRecommendationsSchema.shape.query.parse(req.query);
+    if (!(await User.exists({ _id: req.params.id }))) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(await userRecommendations(req.params.id, limit));
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,11 +1,34 @@
-import { Request, Response, NextFunction } from 'express';
+import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import User from '../models/User';
+import { AuthPayload, AuthRequest } from '../types';
+import { hasPermission, Permission } from '../utils/permissions';
+import { isSessionActive, JWT_SECRET } from '../utils/sessions';
 
-interface AuthRequest extends Request {
-  user?: any;
-}
+// Check the token's signature, expiry and session. Answers the request and
+// returns null when the token can't be used.
+const readToken = async (token: string, res: Response): Promise<AuthPayload | null> => {
+  let payload: AuthPayload;
+  try {
+    payload = jwt.verify(token, JWT_SECRET) as AuthPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      res.status(401).json({ message: 'Token expired.' });
+    } else {
+      res.status(400).json({ message: 'Invalid token.' });
+    }
+    return null;
+  }
+
+  // Tokens from before sessions existed carry no sid and are refused too
+  if (!payload.sid || !(await isSessionActive(payload.sid))) {
+    res.status(401).json({ message: 'Session is no longer valid.' });
+    return null;
+  }
+  return payload;
+};
 
-export const verifyToken = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const verifyToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
   const token = req.header('Authorization')?.replace('Bearer ', '');
   
   if (!token) {
@@ -13,10 +36,78 @@ export const verifyToken = (req: AuthRequest, res: Response, next: NextFunction)
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret');
-    req.user = decoded;
+    const payload = await readToken(token, res);
+    if (!payload) return;
+    req.user = payload;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Like verifyToken, but lets anonymous requests through without a user
+export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const token = req.header('Authorization')?.replace('Bearer ', '');
+
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const payload = await readToken(token, res);
+    if (!payload) return;
+    req.user = payload;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Read the user's current role into req.user, or answer 401 and return false
+// when the account was deactivated or deleted since the token was issued
+const loadCurrentRole = async (req: AuthRequest, res: Response): Promise<boolean> => {
+  if (!req.user) {
+    res.status(401).json({ message: 'Access denied. No token provided.' });
+    return false;
+  }
+
+  const user = await User.findById(req.user.userId).select('role isActive');
+  if (!user || user.isActive === false) {
+    res.status(401).json({ message: 'Account is disabled or no longer exists.' });
+    return false;
+  }
+  req.user.role = user.role;
+  return true;
+};
+
+/**
+ * Let the request through only if the user's role grants `permission`. Use
+ * after verifyToken. The role is read from the database on every request, so
+ * demoting, deactivating or deleting a user takes effect immediately rather
+ * than when their token expires. With `self`, users may also act on their own
+ * record: the route parameter of that name must match their user ID.
+ */
+export const authorize = (permission: Permission, options: { self?: string } = {}) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!(await loadCurrentRole(req, res))) return;
+
+      const isSelf = !!options.self && req.params[options.self] === req.user!.userId;
+      if (!isSelf && !hasPermission(req.user!.role, permission)) {
+        return res.status(403).json({ message: `Forbidden. Requires the ${permission} permission.` });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// For routes open to every user whose handler narrows what they see by role
+export const loadRole = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!(await loadCurrentRole(req, res))) return;
     next();
   } catch (error) {
-    res.status(400).json({ message: 'Invalid token.' });
+    next(error);
   }
 };
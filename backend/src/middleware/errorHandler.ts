@@ -24,6 +24,14 @@ export const errorHandler = (
     return res.status(400).json({ error: "Invalid ID format" });
   }
 
+  // Errors thrown with an explicit status, e.g. new Error(msg, { cause: { status: 409 } })
+  if (error.cause?.status) {
+    return res.status(error.cause.status).json({
+      error: error.message,
+      ...(error.cause.details && { details: error.cause.details }),
+    });
+  }
+
   // Default error
   res.status(500).json({ error: "Internal server error" });
 };
@@ -1,4 +1,5 @@
 export { errorHandler } from "./errorHandler";
 export { default as notFoundHandler } from "./notFoundHandler";
 export * from "./validation";
-export { verifyToken } from "./auth";
+export { verifyToken, optionalAuth, authorize, loadRole } from "./auth";
+export { uploadImages, uploadCatalog } from "./upload";
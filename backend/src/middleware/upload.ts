@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import {
+  IMAGE_TYPES,
+  MAX_IMAGE_SIZE,
+  MAX_IMAGES_PER_PRODUCT,
+} from "../utils/productImages";
+
+const imageUpload = multer({
+  // Files are checked and resized before anything is written to storage
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_SIZE, files: MAX_IMAGES_PER_PRODUCT },
+  fileFilter: (req, file, cb) => {
+    if (!(IMAGE_TYPES as readonly string[]).includes(file.mimetype)) {
+      return cb(
+        new Error(`${file.originalname} must be one of: ${IMAGE_TYPES.join(", ")}`, {
+          cause: { status: 400 },
+        })
+      );
+    }
+    cb(null, true);
+  },
+});
+
+// Largest catalog file accepted by POST /products/import
+const MAX_CATALOG_SIZE = 10 * 1024 * 1024;
+
+const catalogUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_CATALOG_SIZE, files: 1 },
+});
+
+/**
+ * Accept an optional single catalog file (CSV or JSON) in the multipart
+ * field `field`. Requests without multipart bodies pass straight through.
+ */
+export const uploadCatalog = (field: string) => {
+  const upload = catalogUpload.single(field);
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message =
+          error.code === "LIMIT_FILE_SIZE"
+            ? `Catalog files must be at most ${MAX_CATALOG_SIZE / 1024 / 1024} MB`
+            : `Upload a single catalog file in the "${field}" field`;
+        return res.status(400).json({ error: message });
+      }
+      next(error);
+    });
+  };
+};
+
+/**
+ * Accept up to MAX_IMAGES_PER_PRODUCT images in the multipart field `field`
+ */
+export const uploadImages = (field: string) => {
+  const upload = imageUpload.array(field, MAX_IMAGES_PER_PRODUCT);
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message =
+          error.code === "LIMIT_FILE_SIZE"
+            ? `Images must be at most ${MAX_IMAGE_SIZE / 1024 / 1024} MB`
+            : error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE"
+              ? `Upload at most ${MAX_IMAGES_PER_PRODUCT} images in the "${field}" field`
+              : error.message;
+        return res.status(400).json({ error: message });
+      }
+      next(error);
+    });
+  };
+};
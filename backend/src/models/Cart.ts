@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Anonymous carts are dropped after 30 days without changes
+const ANONYMOUS_CART_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface ICartItem {
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId | null;
+  quantity: number;
+}
+
+export interface ICart extends Document {
+  userId?: mongoose.Types.ObjectId;
+  token?: string;
+  items: ICartItem[];
+}
+
+const CartSchema = new Schema<ICart>(
+  {
+    // Set for carts owned by a logged-in user
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      unique: true,
+      sparse: true,
+    },
+    // Set for anonymous carts, sent back by clients in the X-Cart-Token header
+    token: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    items: [
+      {
+        _id: false,
+        productId: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "Product",
+          required: true,
+        },
+        // Set for products sold in variants
+        variantId: {
+          type: mongoose.Schema.Types.ObjectId,
+          default: null,
+        },
+        quantity: {
+          type: Number,
+          required: true,
+          min: 1,
+        },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+CartSchema.index(
+  { updatedAt: 1 },
+  {
+    expireAfterSeconds: ANONYMOUS_CART_TTL_SECONDS,
+    partialFilterExpression: { token: { $exists: true } },
+  }
+);
+
+export default mongoose.model<ICart>("Cart", CartSchema);
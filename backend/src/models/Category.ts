@@ -1,7 +1,14 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { ISoftDeletable, LIVE_DOCUMENTS, softDelete } from "./softDelete";
 
-export interface ICategory extends Document {
+export interface ICategory extends Document, ISoftDeletable {
   name: string;
+  // Direct parent, null for top-level categories
+  parentId: mongoose.Types.ObjectId | null;
+  // Every category above this one, root first
+  ancestors: mongoose.Types.ObjectId[];
+  // Breadcrumb of names from the root, e.g. "Clothing > Men > Shirts"
+  path: string;
 }
 
 const CategorySchema = new Schema<ICategory>(
@@ -10,7 +17,23 @@ const CategorySchema = new Schema<ICategory>(
       type: String,
       required: true,
       trim: true,
-      unique: true,
+    },
+    parentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Category",
+      default: null,
+      index: true,
+    },
+    ancestors: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Category",
+        index: true,
+      },
+    ],
+    path: {
+      type: String,
+      default: "",
     },
   },
   {
@@ -26,4 +49,12 @@ const CategorySchema = new Schema<ICategory>(
   }
 );
 
+CategorySchema.plugin(softDelete);
+
+// Names only have to be unique among live siblings, so "Shirts" can live under "Men" and "Women"
+CategorySchema.index(
+  { parentId: 1, name: 1 },
+  { unique: true, partialFilterExpression: LIVE_DOCUMENTS }
+);
+
 export default mongoose.model<ICategory>("Category", CategorySchema);
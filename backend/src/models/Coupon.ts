@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const COUPON_TYPES = ["percentage", "fixed", "free_shipping"] as const;
+
+export type CouponType = (typeof COUPON_TYPES)[number];
+
+export interface ICoupon extends Document {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  categoryIds: mongoose.Types.ObjectId[];
+  minOrderValue: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+  usageLimit?: number;
+  perUserLimit?: number;
+  usedCount: number;
+  isActive: boolean;
+}
+
+const CouponSchema = new Schema<ICoupon>(
+  {
+    code: {
+      type: String,
+      required: [true, "Coupon code is required"],
+      unique: true,
+      uppercase: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: COUPON_TYPES,
+      required: true,
+    },
+    // Percent off for percentage coupons, amount off for fixed coupons, unused for free shipping
+    value: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // When set, the discount only applies to products in these categories
+    categoryIds: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Category",
+      },
+    ],
+    minOrderValue: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    startsAt: Date,
+    expiresAt: Date,
+    // Total redemptions across all customers
+    usageLimit: {
+      type: Number,
+      min: 1,
+    },
+    perUserLimit: {
+      type: Number,
+      min: 1,
+    },
+    usedCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+export default mongoose.model<ICoupon>("Coupon", CouponSchema);
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * How many live orders of a user hold a coupon. Kept next to the coupon's
+ * own `usedCount` so the per-customer limit can be claimed atomically.
+ */
+export interface ICouponRedemption extends Document {
+  couponId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  count: number;
+}
+
+const CouponRedemptionSchema = new Schema<ICouponRedemption>(
+  {
+    couponId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Coupon",
+      required: true,
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    count: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+CouponRedemptionSchema.index({ couponId: 1, userId: 1 }, { unique: true });
+
+export default mongoose.model<ICouponRedemption>(
+  "CouponRedemption",
+  CouponRedemptionSchema
+);
@@ -1,14 +1,106 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { COUPON_TYPES, CouponType } from "./Coupon";
+
+export const SHIPPING_METHODS = ["flat", "weight", "free_over_threshold"] as const;
+
+export type ShippingMethod = (typeof SHIPPING_METHODS)[number];
+
+export const ORDER_STATUSES = [
+  "pending",
+  "paid",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_PAYMENT_STATUSES = [
+  "unpaid",
+  "paid",
+  "failed",
+  "partially_refunded",
+  "refunded",
+] as const;
+
+export type OrderPaymentStatus = (typeof ORDER_PAYMENT_STATUSES)[number];
+
+export interface IOrderStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  changedBy?: mongoose.Types.ObjectId;
+  note?: string;
+  changedAt: Date;
+}
+
+// Line item with the product details frozen at purchase time
+export interface IOrderItem {
+  productId: mongoose.Types.ObjectId;
+  // Set for products sold in variants, with the SKU and option values at purchase time
+  variantId?: mongoose.Types.ObjectId | null;
+  sku?: string | null;
+  options?: Record<string, string> | null;
+  name: string;
+  unitPrice: number;
+  // Unit weight in kilograms, used for weight-based shipping
+  weight: number;
+  quantity: number;
+  subtotal: number;
+  // Units claimed by returns that weren't rejected
+  returnedQuantity?: number;
+}
+
+// Coupon applied to the order, kept so the final price can be audited
+export interface IOrderDiscount {
+  couponId: mongoose.Types.ObjectId;
+  code: string;
+  type: CouponType;
+  value: number;
+  eligibleSubtotal: number;
+  amount: number;
+  freeShipping: boolean;
+}
 
 export interface IOrder extends Document {
   userId: mongoose.Types.ObjectId;
-  products: Array<{
-    productId: mongoose.Types.ObjectId;
-    quantity: number;
-  }>;
+  products: IOrderItem[];
+  subtotal: number;
+  discount: IOrderDiscount | null;
+  discountTotal: number;
+  shippingRegion: string;
+  shippingMethod: ShippingMethod;
+  shipping: number;
+  taxRate: number;
+  taxInclusive: boolean;
+  tax: number;
   total: number;
+  status: OrderStatus;
+  statusHistory: IOrderStatusChange[];
+  paymentStatus: OrderPaymentStatus;
+  refundedTotal: number;
+  invoiceSeq?: number;
+  invoiceNumber?: string;
+  invoicedAt?: Date;
 }
 
+const OrderDiscountSchema = new Schema<IOrderDiscount>(
+  {
+    couponId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Coupon",
+      required: true,
+    },
+    code: { type: String, required: true },
+    type: { type: String, enum: COUPON_TYPES, required: true },
+    value: { type: Number, required: true },
+    eligibleSubtotal: { type: Number, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    freeShipping: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
 const OrderSchema = new Schema<IOrder>(
   {
     userId: {
@@ -23,18 +115,151 @@ const OrderSchema = new Schema<IOrder>(
           ref: "Product",
           required: true,
         },
+        variantId: {
+          type: mongoose.Schema.Types.ObjectId,
+          default: null,
+        },
+        sku: {
+          type: String,
+          default: null,
+        },
+        options: {
+          type: Schema.Types.Mixed,
+          default: null,
+        },
+        name: {
+          type: String,
+          required: true,
+        },
+        unitPrice: {
+          type: Number,
+          required: true,
+          min: 0,
+        },
+        weight: {
+          type: Number,
+          default: 0,
+          min: 0,
+        },
         quantity: {
           type: Number,
           required: true,
           min: 1,
         },
+        subtotal: {
+          type: Number,
+          required: true,
+          min: 0,
+        },
+        returnedQuantity: {
+          type: Number,
+          default: 0,
+          min: 0,
+        },
       },
     ],
+    // Sum of line subtotals before discounts
+    subtotal: {
+      type: Number,
+      min: 0,
+    },
+    discount: {
+      type: OrderDiscountSchema,
+      default: null,
+    },
+    discountTotal: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Region code the tax rate was looked up for, e.g. "DE"
+    shippingRegion: {
+      type: String,
+      uppercase: true,
+      trim: true,
+    },
+    shippingMethod: {
+      type: String,
+      enum: SHIPPING_METHODS,
+    },
+    shipping: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    taxRate: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Inclusive: prices already contain tax and `tax` is the share of the total
+    taxInclusive: {
+      type: Boolean,
+      default: false,
+    },
+    tax: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     total: {
       type: Number,
       required: true,
       min: 0,
     },
+    status: {
+      type: String,
+      enum: ORDER_STATUSES,
+      default: "pending",
+      index: true,
+    },
+    // Outcome of the latest payment, kept apart from the fulfilment status
+    paymentStatus: {
+      type: String,
+      enum: ORDER_PAYMENT_STATUSES,
+      default: "unpaid",
+    },
+    // Sum of refunds issued through returns; the order itself is never rewritten
+    refundedTotal: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Assigned once, the first time the invoice is requested
+    invoiceSeq: {
+      type: Number,
+      unique: true,
+      sparse: true,
+    },
+    invoiceNumber: String,
+    invoicedAt: Date,
+    statusHistory: [
+      {
+        _id: false,
+        from: {
+          type: String,
+          enum: [...ORDER_STATUSES, null],
+          default: null,
+        },
+        to: {
+          type: String,
+          enum: ORDER_STATUSES,
+          required: true,
+        },
+        changedBy: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "User",
+        },
+        note: {
+          type: String,
+          trim: true,
+        },
+        changedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
   },
   {
     timestamps: true,
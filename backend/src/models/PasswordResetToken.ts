@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A password reset link sent by mail. Only the hash of the token is stored,
+ * so a leaked database can't be used to take over accounts.
+ */
+export interface IPasswordResetToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  // Set when the token is redeemed, a used token never works again
+  usedAt: Date | null;
+}
+
+const PasswordResetTokenSchema = new Schema<IPasswordResetToken>(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        delete (ret as any).tokenHash;
+        return ret;
+      },
+    },
+  }
+);
+
+PasswordResetTokenSchema.index({ tokenHash: 1 }, { unique: true });
+PasswordResetTokenSchema.index({ userId: 1 });
+// Expired tokens are useless, let MongoDB remove them
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IPasswordResetToken>(
+  "PasswordResetToken",
+  PasswordResetTokenSchema
+);
@@ -0,0 +1,117 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const PAYMENT_STATUSES = [
+  "requires_capture",
+  "captured",
+  "failed",
+  "partially_refunded",
+  "refunded",
+] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export interface IPaymentRefund {
+  refundRef: string;
+  amount: number;
+  reason?: string;
+  createdAt: Date;
+}
+
+export interface IPaymentEvent {
+  eventId?: string;
+  type: string;
+  receivedAt: Date;
+}
+
+export interface IPayment extends Document {
+  orderId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  provider: string;
+  providerRef: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  amountRefunded: number;
+  failureReason?: string;
+  refunds: IPaymentRefund[];
+  events: IPaymentEvent[];
+}
+
+const PaymentSchema = new Schema<IPayment>(
+  {
+    orderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Order",
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    // The provider's own ID for the payment intent
+    providerRef: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    status: {
+      type: String,
+      enum: PAYMENT_STATUSES,
+      default: "requires_capture",
+    },
+    amountRefunded: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    failureReason: String,
+    refunds: [
+      {
+        _id: false,
+        refundRef: { type: String, required: true },
+        amount: { type: Number, required: true, min: 0 },
+        reason: String,
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+    // Provider callbacks already applied, so repeated webhooks are ignored
+    events: [
+      {
+        _id: false,
+        eventId: String,
+        type: { type: String, required: true },
+        receivedAt: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+PaymentSchema.index({ provider: 1, providerRef: 1 }, { unique: true });
+
+export default mongoose.model<IPayment>("Payment", PaymentSchema);
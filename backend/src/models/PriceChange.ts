@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const PRICE_CHANGE_TYPES = ["regular", "sale"] as const;
+
+export type PriceChangeType = (typeof PRICE_CHANGE_TYPES)[number];
+
+/**
+ * One entry of a product's price history. Regular entries record a new
+ * product or variant price; sale entries record a scheduled sale as it was
+ * created or ended, the latest entry per sale holding its final window.
+ */
+export interface IPriceChange extends Document {
+  productId: mongoose.Types.ObjectId;
+  // Null for the product price and for sales covering every variant
+  variantId: mongoose.Types.ObjectId | null;
+  type: PriceChangeType;
+  // New regular price, null when a variant falls back to the product price; or the sale price
+  price: number | null;
+  // Regular price before the change, null when the product or variant was created
+  previousPrice: number | null;
+  saleId?: mongoose.Types.ObjectId;
+  startsAt?: Date;
+  endsAt?: Date;
+  // User who made the change, null when it wasn't made by a signed-in user
+  changedBy: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+const PriceChangeSchema = new Schema<IPriceChange>(
+  {
+    productId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Product",
+      required: true,
+    },
+    variantId: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
+    type: {
+      type: String,
+      enum: PRICE_CHANGE_TYPES,
+      required: true,
+    },
+    price: {
+      type: Number,
+      min: 0,
+      default: null,
+    },
+    previousPrice: {
+      type: Number,
+      min: 0,
+      default: null,
+    },
+    saleId: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
+    startsAt: {
+      type: Date,
+    },
+    endsAt: {
+      type: Date,
+    },
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+PriceChangeSchema.index({ productId: 1, createdAt: -1 });
+
+export default mongoose.model<IPriceChange>("PriceChange", PriceChangeSchema);
@@ -1,12 +1,175 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { mediaStorage } from "../utils/mediaStorage";
+import { activeSale, currentPrice } from "../utils/salePrices";
+import { ISoftDeletable, LIVE_DOCUMENTS, softDelete } from "./softDelete";
 
-export interface IProduct extends Document {
+// Option axis such as "size" with the values a variant can pick from
+export interface IProductOption {
+  name: string;
+  values: string[];
+}
+
+// Sellable combination of option values with its own SKU and stock
+export interface IProductVariant {
+  _id: mongoose.Types.ObjectId;
+  sku: string;
+  // One value per option axis, e.g. { size: "M", colour: "Red" }
+  options: Record<string, string>;
+  // Overrides the product price when set
+  price?: number | null;
+  stock: number;
+}
+
+// Sale price that takes effect between startsAt and endsAt
+export interface IProductSale {
+  _id: mongoose.Types.ObjectId;
+  // Null when the sale covers every variant of the product
+  variantId: mongoose.Types.ObjectId | null;
+  price: number;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// Uploaded image, stored through the media storage adapter
+export interface IProductImage {
+  _id: mongoose.Types.ObjectId;
+  key: string;
+  thumbnailKey: string;
+  contentType: string;
+  // Size of the original in bytes
+  size: number;
+  width: number;
+  height: number;
+  primary: boolean;
+}
+
+export interface IProduct extends Document, ISoftDeletable {
   name: string;
   description: string;
   price: number;
   categoryId: mongoose.Types.ObjectId;
+  // Stock of products without variants; variants track their own
+  stock: number;
+  weight: number;
+  options: IProductOption[];
+  variants: IProductVariant[];
+  // In display order, at most one is primary
+  images: IProductImage[];
+  // Scheduled and running sales; ended ones only remain in the price history
+  sales: IProductSale[];
+  // Kept in sync with the approved reviews
+  ratingAverage: number;
+  ratingCount: number;
 }
 
+const ProductOptionSchema = new Schema<IProductOption>(
+  {
+    name: { type: String, required: true, trim: true },
+    values: [{ type: String, required: true, trim: true }],
+  },
+  { _id: false }
+);
+
+const ProductVariantSchema = new Schema<IProductVariant>(
+  {
+    sku: {
+      type: String,
+      required: true,
+      trim: true,
+      uppercase: true,
+    },
+    options: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    price: {
+      type: Number,
+      min: 0,
+      default: null,
+    },
+    stock: {
+      type: Number,
+      default: 0,
+      min: [0, "Stock cannot be negative"],
+      validate: {
+        validator: Number.isInteger,
+        message: "Stock must be a whole number",
+      },
+    },
+  },
+  {
+    toJSON: {
+      transform: (doc, ret) => {
+        (ret as any).id = ret._id;
+        delete (ret as any)._id;
+        // Price including running sales, from the product the variant belongs to
+        const product = (doc as any).parent?.();
+        if (product) {
+          (ret as any).currentPrice = currentPrice(product, doc);
+        }
+        return ret;
+      },
+    },
+  }
+);
+
+const ProductSaleSchema = new Schema<IProductSale>(
+  {
+    variantId: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
+    price: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    endsAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    toJSON: {
+      transform: (doc, ret) => {
+        (ret as any).id = ret._id;
+        delete (ret as any)._id;
+        return ret;
+      },
+    },
+  }
+);
+
+const ProductImageSchema = new Schema<IProductImage>(
+  {
+    key: { type: String, required: true },
+    thumbnailKey: { type: String, required: true },
+    contentType: { type: String, required: true },
+    size: { type: Number, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+    primary: { type: Boolean, default: false },
+  },
+  {
+    toJSON: {
+      // Expose URLs served by the API instead of storage keys
+      transform: (doc, ret) => {
+        (ret as any).id = ret._id;
+        (ret as any).url = mediaStorage.url(ret.key);
+        (ret as any).thumbnailUrl = mediaStorage.url(ret.thumbnailKey);
+        delete (ret as any)._id;
+        delete (ret as any).key;
+        delete (ret as any).thumbnailKey;
+        return ret;
+      },
+    },
+  }
+);
+
 const ProductSchema = new Schema<IProduct>(
   {
     name: {
@@ -28,6 +191,48 @@ const ProductSchema = new Schema<IProduct>(
       ref: "Category",
       required: true,
     },
+    stock: {
+      type: Number,
+      default: 0,
+      min: [0, "Stock cannot be negative"],
+      validate: {
+        validator: Number.isInteger,
+        message: "Stock must be a whole number",
+      },
+    },
+    // Shipping weight in kilograms
+    weight: {
+      type: Number,
+      default: 0,
+      min: [0, "Weight cannot be negative"],
+    },
+    options: {
+      type: [ProductOptionSchema],
+      default: [],
+    },
+    variants: {
+      type: [ProductVariantSchema],
+      default: [],
+    },
+    images: {
+      type: [ProductImageSchema],
+      default: [],
+    },
+    sales: {
+      type: [ProductSaleSchema],
+      default: [],
+    },
+    ratingAverage: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 5,
+    },
+    ratingCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
   },
   {
     timestamps: true,
@@ -36,10 +241,35 @@ const ProductSchema = new Schema<IProduct>(
         ret.id = ret._id;
         delete ret._id;
         delete (ret as any).__v;
+        // Prices in effect right now, so clients don't have to evaluate sales
+        if (Array.isArray(doc.sales)) {
+          (ret as any).currentPrice = currentPrice(doc);
+          (ret as any).onSale = !!activeSale(doc);
+        }
         return ret;
       },
     },
   }
 );
 
+ProductSchema.plugin(softDelete);
+
+// SKUs are unique across the live catalogue
+ProductSchema.index(
+  { "variants.sku": 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      "variants.sku": { $exists: true },
+      ...LIVE_DOCUMENTS,
+    },
+  }
+);
+
+// Full-text search for GET /products, matches in the name rank higher
+ProductSchema.index(
+  { name: "text", description: "text" },
+  { name: "product_text", weights: { name: 10, description: 2 } }
+);
+
 export default mongoose.model<IProduct>("Product", ProductSchema);
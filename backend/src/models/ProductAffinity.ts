@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * How often `relatedId` was bought in the same order as `productId`.
+ * Every pair is stored in both directions so lookups need one index scan.
+ */
+export interface IProductAffinity extends Document {
+  productId: mongoose.Types.ObjectId;
+  relatedId: mongoose.Types.ObjectId;
+  count: number;
+}
+
+const ProductAffinitySchema = new Schema<IProductAffinity>(
+  {
+    productId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Product",
+      required: true,
+    },
+    relatedId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Product",
+      required: true,
+    },
+    count: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+ProductAffinitySchema.index({ productId: 1, relatedId: 1 }, { unique: true });
+ProductAffinitySchema.index({ productId: 1, count: -1 });
+
+export default mongoose.model<IProductAffinity>(
+  "ProductAffinity",
+  ProductAffinitySchema
+);
@@ -0,0 +1,166 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const RETURN_STATUSES = [
+  "requested",
+  "approved",
+  "rejected",
+  "received",
+  "refunded",
+] as const;
+
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export const RETURN_CONDITIONS = [
+  "unopened",
+  "like_new",
+  "used",
+  "damaged",
+] as const;
+
+export type ReturnCondition = (typeof RETURN_CONDITIONS)[number];
+
+export interface IReturnItem {
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId | null;
+  sku?: string | null;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface IReturnStatusChange {
+  from: ReturnStatus | null;
+  to: ReturnStatus;
+  changedBy?: mongoose.Types.ObjectId;
+  note?: string;
+  changedAt: Date;
+}
+
+export interface IReturnRefund {
+  paymentId: mongoose.Types.ObjectId;
+  refundRef: string;
+  amount: number;
+  refundedAt: Date;
+}
+
+export interface IReturn extends Document {
+  orderId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  items: IReturnItem[];
+  reason: string;
+  status: ReturnStatus;
+  condition?: ReturnCondition;
+  restocked: boolean;
+  refund: IReturnRefund | null;
+  statusHistory: IReturnStatusChange[];
+}
+
+const ReturnRefundSchema = new Schema<IReturnRefund>(
+  {
+    paymentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Payment",
+      required: true,
+    },
+    refundRef: { type: String, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    refundedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const ReturnSchema = new Schema<IReturn>(
+  {
+    orderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Order",
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    // Copied from the order lines being returned
+    items: [
+      {
+        _id: false,
+        productId: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "Product",
+          required: true,
+        },
+        variantId: { type: mongoose.Schema.Types.ObjectId, default: null },
+        sku: { type: String, default: null },
+        name: { type: String, required: true },
+        unitPrice: { type: Number, required: true, min: 0 },
+        quantity: { type: Number, required: true, min: 1 },
+      },
+    ],
+    reason: {
+      type: String,
+      required: [true, "A reason is required"],
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: RETURN_STATUSES,
+      default: "requested",
+      index: true,
+    },
+    // Condition the goods arrived in, recorded when the return is received
+    condition: {
+      type: String,
+      enum: RETURN_CONDITIONS,
+    },
+    restocked: {
+      type: Boolean,
+      default: false,
+    },
+    refund: {
+      type: ReturnRefundSchema,
+      default: null,
+    },
+    statusHistory: [
+      {
+        _id: false,
+        from: {
+          type: String,
+          enum: [...RETURN_STATUSES, null],
+          default: null,
+        },
+        to: {
+          type: String,
+          enum: RETURN_STATUSES,
+          required: true,
+        },
+        changedBy: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "User",
+        },
+        note: {
+          type: String,
+          trim: true,
+        },
+        changedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+export default mongoose.model<IReturn>("Return", ReturnSchema);
@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const REVIEW_STATUSES = ["pending", "approved", "rejected"] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export interface IReview extends Document {
+  productId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  // Delivered order that makes this a verified purchase
+  orderId: mongoose.Types.ObjectId;
+  rating: number;
+  title?: string;
+  body: string;
+  // Only approved reviews are public and count towards the product rating
+  status: ReviewStatus;
+  moderatedBy?: mongoose.Types.ObjectId;
+  moderatedAt?: Date;
+  moderationNote?: string;
+}
+
+const ReviewSchema = new Schema<IReview>(
+  {
+    productId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Product",
+      required: true,
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    orderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Order",
+      required: true,
+    },
+    rating: {
+      type: Number,
+      required: true,
+      min: [1, "Rating must be between 1 and 5"],
+      max: [5, "Rating must be between 1 and 5"],
+      validate: {
+        validator: Number.isInteger,
+        message: "Rating must be a whole number",
+      },
+    },
+    title: {
+      type: String,
+      trim: true,
+    },
+    body: {
+      type: String,
+      required: [true, "Review text is required"],
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: REVIEW_STATUSES,
+      default: "pending",
+      index: true,
+    },
+    moderatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+    },
+    moderatedAt: {
+      type: Date,
+    },
+    moderationNote: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// One review per customer and product
+ReviewSchema.index({ productId: 1, userId: 1 }, { unique: true });
+
+export default mongoose.model<IReview>("Review", ReviewSchema);
@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const SESSION_REVOKE_REASONS = [
+  "logout",
+  "logout_all",
+  "reuse_detected",
+  "password_changed",
+  "user_deactivated",
+  "user_deleted",
+] as const;
+
+export type SessionRevokeReason = (typeof SESSION_REVOKE_REASONS)[number];
+
+/**
+ * One login of a user: the family of refresh tokens rotated from it. Only
+ * the hash of the current refresh token is kept. Every refresh replaces it
+ * and bumps `generation`, so a token of an earlier generation showing up
+ * again means it was copied, and the whole session is revoked.
+ */
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  generation: number;
+  expiresAt: Date;
+  lastRefreshedAt?: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason;
+  userAgent?: string;
+  ip?: string;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+    },
+    generation: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    lastRefreshedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: SESSION_REVOKE_REASONS,
+    },
+    userAgent: {
+      type: String,
+    },
+    ip: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (doc, ret) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete (ret as any).__v;
+        delete (ret as any).refreshTokenHash; // Never expose token hashes
+        return ret;
+      },
+    },
+  }
+);
+
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+// Sessions disappear once their refresh token could no longer be used
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>("Session", SessionSchema);
@@ -1,11 +1,22 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { ISoftDeletable, LIVE_DOCUMENTS, softDelete } from "./softDelete";
 
-export interface IUser extends Document {
+export const USER_ROLES = ["admin", "staff", "customer"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export interface IUser extends Document, ISoftDeletable {
   firstName: string;
   lastName: string;
   email: string;
   password: string;
+  role: UserRole;
   isActive?: boolean;
+  // False until the user opens the link mailed on registration
+  emailVerified: boolean;
+  emailVerifiedAt?: Date | null;
+  // When the last verification mail went out, resends are throttled on it
+  verificationSentAt?: Date | null;
 }
 
 const UserSchema = new Schema<IUser>(
@@ -23,7 +34,6 @@ const UserSchema = new Schema<IUser>(
     email: {
       type: String,
       required: [true, "Email is required"],
-      unique: true,
       lowercase: true,
       trim: true,
       match: [/^\S+@\S+\.\S+$/, "Email is not valid"],
@@ -33,10 +43,27 @@ const UserSchema = new Schema<IUser>(
       required: [true, "Password is required"],
       minlength: [6, "Password must be at least 6 characters long"],
     },
+    role: {
+      type: String,
+      enum: USER_ROLES,
+      default: "customer",
+    },
     isActive: {
       type: Boolean,
       default: true,
     },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerifiedAt: {
+      type: Date,
+      default: null,
+    },
+    verificationSentAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -52,4 +79,12 @@ const UserSchema = new Schema<IUser>(
   }
 );
 
+UserSchema.plugin(softDelete);
+
+// Emails are unique among live users, a trashed user doesn't block sign-up
+UserSchema.index(
+  { email: 1 },
+  { unique: true, partialFilterExpression: LIVE_DOCUMENTS }
+);
+
 export default mongoose.model<IUser>("User", UserSchema);
@@ -2,3 +2,13 @@ export { default as User } from "./User";
 export { default as Category } from "./Category";
 export { default as Product } from "./Product";
 export { default as Order } from "./Order";
+export { default as Cart } from "./Cart";
+export { default as Coupon } from "./Coupon";
+export { default as CouponRedemption } from "./CouponRedemption";
+export { default as Payment } from "./Payment";
+export { default as Return } from "./Return";
+export { default as Review } from "./Review";
+export { default as PriceChange } from "./PriceChange";
+export { default as ProductAffinity } from "./ProductAffinity";
+export { default as Session } from "./Session";
+export { default as PasswordResetToken } from "./PasswordResetToken";
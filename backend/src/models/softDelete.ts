@@ -0,0 +1,63 @@
+import { Aggregate, MongooseQueryMiddleware, Query, Schema } from "mongoose";
+
+export interface ISoftDeletable {
+  // Set when the document was moved to the trash, null while it is live
+  deletedAt: Date | null;
+}
+
+// Reads and updates that only see live documents
+const SCOPED_QUERIES: MongooseQueryMiddleware[] = [
+  "countDocuments",
+  "distinct",
+  "find",
+  "findOne",
+  "findOneAndUpdate",
+  "findOneAndReplace",
+  "replaceOne",
+  "updateOne",
+  "updateMany",
+];
+
+// Also looks inside $and, which is how paginated queries combine filters
+const mentionsDeletedAt = (filter: unknown): boolean => {
+  if (!filter || typeof filter !== "object") return false;
+  if ("deletedAt" in filter) return true;
+  const and = (filter as { $and?: unknown }).$and;
+  return Array.isArray(and) && and.some(mentionsDeletedAt);
+};
+
+/**
+ * Soft-delete plugin: adds `deletedAt` and hides documents that have it set
+ * from queries and aggregations. A query that filters on `deletedAt` itself,
+ * e.g. `{ deletedAt: { $ne: null } }` for the trash, is left alone.
+ *
+ * Unique indexes of soft-deletable models should be partial on
+ * `{ deletedAt: { $type: "null" } }` so trashed documents don't block new ones.
+ */
+export const softDelete = (schema: Schema) => {
+  schema.add({
+    deletedAt: { type: Date, default: null, index: true },
+  });
+
+  schema.pre(SCOPED_QUERIES, function (this: Query<unknown, unknown>) {
+    if (!mentionsDeletedAt(this.getFilter())) {
+      this.where({ deletedAt: null });
+    }
+  });
+
+  schema.pre("aggregate", function (this: Aggregate<unknown>) {
+    const pipeline = this.pipeline();
+    const first = pipeline[0];
+    // Merge into a leading $match, which has to stay first for $text searches
+    if (first && "$match" in first) {
+      if (!mentionsDeletedAt(first.$match)) {
+        first.$match.deletedAt = null;
+      }
+    } else {
+      pipeline.unshift({ $match: { deletedAt: null } });
+    }
+  });
+};
+
+// Partial filter for unique indexes that should only cover live documents
+export const LIVE_DOCUMENTS = { deletedAt: { $type: "null" } };
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { verifyToken } from "../middleware/auth";
+import { authorize, verifyToken } from "../middleware/auth";
 import Product from "../models/Product";
 import { generateProductImage, getCacheStats, clearCache, getCacheSize } from "../utils/aiUtils";
 
@@ -12,6 +12,7 @@ const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
  * /ai/generate-product-image:
  *   post:
  *     summary: Generate AI image for a product using DALL-E 3 with retry logic and caching
+ *     x-permission: ai:use
  *     tags: [AI]
  *     security:
  *       - bearerAuth: []
@@ -56,7 +57,7 @@ const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
  *       200:
  *         description: Image generated successfully
  */
-router.post("/generate-product-image", verifyToken, async (req, res) => {
+router.post("/generate-product-image", verifyToken, authorize("ai:use"), async (req, res) => {
   try {
     const { productId, prompt: customPrompt, options = {} } = req.body;
 
@@ -117,6 +118,7 @@ router.post("/generate-product-image", verifyToken, async (req, res) => {
  * /ai/cache/stats:
  *   get:
  *     summary: Get cache statistics
+ *     x-permission: ai:use
  *     tags: [AI]
  *     security:
  *       - bearerAuth: []
@@ -124,7 +126,7 @@ router.post("/generate-product-image", verifyToken, async (req, res) => {
  *       200:
  *         description: Cache statistics
  */
-router.get("/cache/stats", verifyToken, async (req, res) => {
+router.get("/cache/stats", verifyToken, authorize("ai:use"), async (req, res) => {
   try {
     const stats = getCacheStats();
     const cacheSize = getCacheSize();
@@ -150,6 +152,7 @@ router.get("/cache/stats", verifyToken, async (req, res) => {
  * /ai/cache/clear:
  *   delete:
  *     summary: Clear the image cache
+ *     x-permission: ai:use
  *     tags: [AI]
  *     security:
  *       - bearerAuth: []
@@ -157,7 +160,7 @@ router.get("/cache/stats", verifyToken, async (req, res) => {
  *       200:
  *         description: Cache cleared successfully
  */
-router.delete("/cache/clear", verifyToken, async (req, res) => {
+router.delete("/cache/clear", verifyToken, authorize("ai:use"), async (req, res) => {
   try {
     clearCache();
     res.json({
@@ -1,15 +1,46 @@
-import { Router } from "express";
+import { Request, Router } from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import User from "../models/User";
+import { verifyToken } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import {
+  forgotPasswordSchema,
+  ForgotPasswordInput,
+  RefreshTokenInput,
+  refreshTokenSchema,
+  resetPasswordSchema,
+  ResetPasswordInput,
+  verifyEmailSchema,
+} from "../schemas";
+import { AuthRequest, TypedRequest } from "../types";
+import { CART_TOKEN_HEADER, mergeAnonymousCart } from "../utils/cart";
+import { requestPasswordReset, resetPassword } from "../utils/passwordReset";
+import {
+  resendVerificationEmail,
+  sendVerificationEmail,
+  verifyEmail,
+} from "../utils/emailVerification";
+import {
+  refreshSession,
+  revokeSession,
+  revokeUserSessions,
+  SessionClient,
+  startSession,
+} from "../utils/sessions";
 
 const router = Router();
 
+const clientOf = (req: Request): SessionClient => ({
+  userAgent: req.get("User-Agent"),
+  ip: req.ip,
+});
+
 /**
  * @swagger
  * /auth/register:
  *   post:
  *     summary: Register a new user
+ *     description: The account starts unverified and a verification link is mailed to the address. Orders can be placed once it is verified.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -28,7 +59,11 @@ const router = Router();
  *                 type: string
  *     responses:
  *       201:
- *         description: User registered successfully
+ *         description: User registered, with an access `token` and a `refreshToken`
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
  */
 router.post("/register", async (req, res) => {
   try {
@@ -50,25 +85,28 @@ router.post("/register", async (req, res) => {
       lastName,
       email,
       password: hashedPassword,
+      verificationSentAt: new Date(),
     });
 
     await user.save();
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, email: user.email },
-      process.env.JWT_SECRET || 'fallback-secret',
-      { expiresIn: '24h' }
+    // A failed mail doesn't fail the registration, the user can ask for another link
+    sendVerificationEmail(user).catch((error) =>
+      console.error("Failed to send verification mail:", error)
     );
 
+    // Start a session with a short-lived access token and a refresh token
+    const tokens = await startSession(user, clientOf(req));
+
     res.status(201).json({
       message: "User registered successfully",
-      token,
+      ...tokens,
       user: {
         id: user._id,
         firstName: user.firstName,
         lastName: user.lastName,
         email: user.email,
+        emailVerified: user.emailVerified,
       },
     });
   } catch (error: any) {
@@ -81,7 +119,10 @@ router.post("/register", async (req, res) => {
  * /auth/login:
  *   post:
  *     summary: Login user
+ *     description: If an anonymous cart token is sent in `X-Cart-Token`, that cart is merged into the user's cart.
  *     tags: [Auth]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
  *     requestBody:
  *       required: true
  *       content:
@@ -95,7 +136,13 @@ router.post("/register", async (req, res) => {
  *                 type: string
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, with an access `token` and a `refreshToken`
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       403:
+ *         description: Account is deactivated
  */
 router.post("/login", async (req, res) => {
   try {
@@ -113,21 +160,28 @@ router.post("/login", async (req, res) => {
       return res.status(400).json({ message: "Invalid email or password" });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, email: user.email },
-      process.env.JWT_SECRET || 'fallback-secret',
-      { expiresIn: '24h' }
-    );
+    if (user.isActive === false) {
+      return res.status(403).json({ message: "Account is deactivated" });
+    }
+
+    // Merge the cart the user filled while logged out
+    const cartToken = req.header(CART_TOKEN_HEADER);
+    if (cartToken) {
+      await mergeAnonymousCart(cartToken, String(user._id));
+    }
+
+    // Start a session with a short-lived access token and a refresh token
+    const tokens = await startSession(user, clientOf(req));
 
     res.json({
       message: "Login successful",
-      token,
+      ...tokens,
       user: {
         id: user._id,
         firstName: user.firstName,
         lastName: user.lastName,
         email: user.email,
+        emailVerified: user.emailVerified,
       },
     });
   } catch (error: any) {
@@ -135,4 +189,243 @@ router.post("/login", async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Trade a refresh token for new tokens
+ *     description: |
+ *       Every refresh token works once and is replaced by the one in the response. Sending a
+ *       refresh token that was already used revokes its session, because it means the token was copied.
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New access token and refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       401:
+ *         description: Refresh token invalid, expired, revoked or already used
+ */
+router.post(
+  "/refresh",
+  validate(refreshTokenSchema),
+  async (req: TypedRequest<RefreshTokenInput["body"]>, res, next) => {
+    try {
+      const tokens = await refreshSession(req.body.refreshToken, clientOf(req));
+      res.json({ message: "Token refreshed", ...tokens });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: Log out the current session
+ *     description: Revokes the session of the access token; its access and refresh tokens stop working immediately.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Session revoked
+ *       401:
+ *         description: Not logged in, or the session is already revoked
+ */
+router.post("/logout", verifyToken, async (req: AuthRequest, res, next) => {
+  try {
+    await revokeSession(req.user!.sid, "logout");
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/logout-all:
+ *   post:
+ *     summary: Log out every session of the user
+ *     description: Revokes all sessions of the signed-in user, on every device, including the current one.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 revoked:
+ *                   type: integer
+ *       401:
+ *         description: Not logged in, or the session is already revoked
+ */
+router.post("/logout-all", verifyToken, async (req: AuthRequest, res, next) => {
+  try {
+    const revoked = await revokeUserSessions(req.user!.userId, "logout_all");
+    res.json({ message: "All sessions logged out", revoked });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Mail a password reset link
+ *     description: |
+ *       Answers the same whether or not an account exists for the email, so it can't be used to
+ *       look up accounts. The link holds a single-use token valid for PASSWORD_RESET_TTL_MINUTES (default 60).
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       202:
+ *         description: Accepted; a link was mailed if the account exists
+ *       400:
+ *         description: Invalid email format
+ */
+router.post(
+  "/forgot-password",
+  validate(forgotPasswordSchema),
+  (req: TypedRequest<ForgotPasswordInput["body"]>, res) => {
+    // Answer before looking the user up so the response time gives nothing away either
+    requestPasswordReset(req.body.email).catch((error) =>
+      console.error("Failed to send password reset mail:", error)
+    );
+    res.status(202).json({
+      message: "If an account exists for this email, a reset link has been sent",
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /auth/reset-password:
+ *   post:
+ *     summary: Choose a new password with a reset token
+ *     description: The token works once. Every session of the user is logged out afterwards.
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the reset link
+ *               password:
+ *                 type: string
+ *                 minLength: 6
+ *     responses:
+ *       200:
+ *         description: Password changed, log in with the new password
+ *       400:
+ *         description: Validation error, or the token is invalid, expired or already used
+ */
+router.post(
+  "/reset-password",
+  validate(resetPasswordSchema),
+  async (req: TypedRequest<ResetPasswordInput["body"]>, res, next) => {
+    try {
+      await resetPassword(req.body.token, req.body.password);
+      res.json({ message: "Password has been reset, please log in again" });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/verify-email:
+ *   get:
+ *     summary: Verify an email address
+ *     description: Target of the signed link mailed on registration. The link expires after EMAIL_VERIFICATION_TTL (default 24h) and stops working when the email is changed.
+ *     tags: [Auth]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Invalid or expired verification link
+ */
+router.get("/verify-email", validate(verifyEmailSchema), async (req, res, next) => {
+  try {
+    const { token } = verifyEmailSchema.shape.query.parse(req.query);
+    const user = await verifyEmail(token);
+    res.json({ message: "Email verified", user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/resend-verification:
+ *   post:
+ *     summary: Mail a new verification link
+ *     description: At most one mail per EMAIL_VERIFICATION_RESEND_SECONDS (default 60).
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Verification mail sent
+ *       409:
+ *         description: Email address is already verified
+ *       429:
+ *         description: Asked again too soon, `details.retryAfter` holds the seconds to wait
+ */
+router.post("/resend-verification", verifyToken, async (req: AuthRequest, res, next) => {
+  try {
+    await resendVerificationEmail(req.user!.userId);
+    res.status(202).json({ message: "Verification email sent" });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,221 @@
+import { Router } from "express";
+import * as cartController from "../controllers/cart";
+import { validate } from "../middleware/validation";
+import { optionalAuth, verifyToken } from "../middleware/auth";
+import {
+  addCartItemSchema,
+  updateCartItemSchema,
+  removeCartItemSchema,
+  checkoutCartSchema,
+} from "../schemas";
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     CartToken:
+ *       in: header
+ *       name: X-Cart-Token
+ *       schema:
+ *         type: string
+ *       description: Token of an anonymous cart, returned as `token` in cart responses. Ignored when a bearer token is sent.
+ */
+
+/**
+ * @swagger
+ * /cart:
+ *   get:
+ *     summary: Get the current cart with a live price preview
+ *     description: Logged-in users get their own cart. Anonymous clients get the cart for `X-Cart-Token`, or a new one if none is sent.
+ *     tags: [Cart]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *     responses:
+ *       200:
+ *         description: Cart lines priced with current product prices and a total
+ */
+router.get("/", optionalAuth, cartController.getCart);
+
+/**
+ * @swagger
+ * /cart/items:
+ *   post:
+ *     summary: Add a product to the cart
+ *     description: Adds to the quantity if the product is already in the cart.
+ *     tags: [Cart]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productId
+ *             properties:
+ *               productId:
+ *                 type: string
+ *                 description: Product ID (24-character hex string)
+ *               variantId:
+ *                 type: string
+ *                 description: Variant ID, required for products sold in variants
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 1
+ *           example:
+ *             productId: "68a2e09547100dc49124f1da"
+ *             quantity: 2
+ *     responses:
+ *       201:
+ *         description: Updated cart preview
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Product not found
+ */
+router.post(
+  "/items",
+  optionalAuth,
+  validate(addCartItemSchema),
+  cartController.addItemToCart
+);
+
+/**
+ * @swagger
+ * /cart/items/{productId}:
+ *   put:
+ *     summary: Set the quantity of a product in the cart
+ *     tags: [Cart]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID (24-character hex string)
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
+ *         description: Variant of the product the cart line refers to
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quantity
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *     responses:
+ *       200:
+ *         description: Updated cart preview
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Cart not found or product not in cart
+ */
+router.put(
+  "/items/:productId",
+  optionalAuth,
+  validate(updateCartItemSchema),
+  cartController.updateCartItem
+);
+
+/**
+ * @swagger
+ * /cart/items/{productId}:
+ *   delete:
+ *     summary: Remove a product from the cart
+ *     tags: [Cart]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID (24-character hex string)
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
+ *         description: Variant of the product the cart line refers to
+ *     responses:
+ *       200:
+ *         description: Updated cart preview
+ *       404:
+ *         description: Cart not found
+ */
+router.delete(
+  "/items/:productId",
+  optionalAuth,
+  validate(removeCartItemSchema),
+  cartController.removeCartItem
+);
+
+/**
+ * @swagger
+ * /cart:
+ *   delete:
+ *     summary: Remove all items from the cart
+ *     tags: [Cart]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *     responses:
+ *       204:
+ *         description: Cart emptied
+ *       404:
+ *         description: Cart not found
+ */
+router.delete("/", optionalAuth, cartController.clearCart);
+
+/**
+ * @swagger
+ * /cart/checkout:
+ *   post:
+ *     summary: Turn the cart into an order
+ *     description: Validates the cart like `POST /orders`, reserves stock and creates a pending order for the logged-in user. Ordered items are removed from the cart.
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               couponCode:
+ *                 type: string
+ *                 description: Optional discount code to apply
+ *               shippingRegion:
+ *                 type: string
+ *                 description: Region code for tax, e.g. "DE" (defaults to DEFAULT_TAX_REGION)
+ *     responses:
+ *       201:
+ *         description: Order created
+ *       400:
+ *         description: Cart is empty, validation error, product not found, or coupon not applicable
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Email address is not verified yet
+ *       409:
+ *         description: Insufficient stock, the error names the product
+ */
+router.post(
+  "/checkout",
+  verifyToken,
+  validate(checkoutCartSchema),
+  cartController.checkoutCart
+);
+
+export default router;
@@ -1,11 +1,14 @@
 import { Router } from "express";
 import * as categoryController from "../controllers/categories";
 import { validate } from "../middleware/validation";
+import { authorize, verifyToken } from "../middleware/auth";
 import {
   createCategorySchema,
   updateCategorySchema,
   getCategoryByIdSchema,
   deleteCategorySchema,
+  getCategoryTreeSchema,
+  listQuerySchema,
 } from "../schemas";
 
 const router = Router();
@@ -16,11 +19,48 @@ const router = Router();
  *   get:
  *     summary: Get all categories
  *     tags: [Categories]
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
- *         description: List of categories
+ *         description: Page of categories sorted by name, in the list envelope (`data`, `pagination`)
  */
-router.get("/", categoryController.getCategories);
+router.get(
+  "/",
+  validate(listQuerySchema),
+  categoryController.getCategories
+);
+
+/**
+ * @swagger
+ * /categories/tree:
+ *   get:
+ *     summary: Get categories as a nested tree
+ *     tags: [Categories]
+ *     parameters:
+ *       - in: query
+ *         name: rootId
+ *         schema:
+ *           type: string
+ *         description: Only return the subtree below this category
+ *     responses:
+ *       200:
+ *         description: Top-level categories with their `children`, sorted by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/CategoryTreeNode'
+ *       404:
+ *         description: Root category not found
+ */
+router.get(
+  "/tree",
+  validate(getCategoryTreeSchema),
+  categoryController.getCategoryTree
+);
 
 /**
  * @swagger
@@ -54,7 +94,10 @@ router.get(
  * /categories:
  *   post:
  *     summary: Create a new category
+ *     x-permission: catalog:write
  *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -68,16 +111,23 @@ router.get(
  *                 type: string
  *                 minLength: 1
  *                 description: Category name
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Parent category ID, omit or null for a top-level category
  *           example:
- *             name: "Electronics"
+ *             name: "Shirts"
+ *             parentId: "68a2e09547100dc49124f1d8"
  *     responses:
  *       201:
  *         description: Category created
  *       400:
- *         description: Validation error
+ *         description: Validation error, parent not found, or name already used by a sibling
  */
 router.post(
   "/",
+  verifyToken,
+  authorize("catalog:write"),
   validate(createCategorySchema),
   categoryController.createCategory
 );
@@ -87,7 +137,10 @@ router.post(
  * /categories/{id}:
  *   put:
  *     summary: Update category
+ *     x-permission: catalog:write
  *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -106,18 +159,26 @@ router.post(
  *                 type: string
  *                 minLength: 1
  *                 description: Category name
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Move the category and its subtree under this parent, null for top level
  *           example:
  *             name: "Home & Garden"
  *     responses:
  *       200:
- *         description: Category updated
+ *         description: Category updated, breadcrumbs below it are rewritten
  *       400:
- *         description: Invalid ID format or validation error
+ *         description: Invalid ID format, validation error, or a move that would create a cycle
  *       404:
  *         description: Category not found
+ *       409:
+ *         description: Category was modified concurrently
  */
 router.put(
   "/:id",
+  verifyToken,
+  authorize("catalog:write"),
   validate(updateCategorySchema),
   categoryController.updateCategory
 );
@@ -127,7 +188,10 @@ router.put(
  * /categories/{id}:
  *   delete:
  *     summary: Delete category
+ *     x-permission: catalog:write
  *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -135,16 +199,35 @@ router.put(
  *         schema:
  *           type: string
  *         description: Category ID (24-character hex string)
+ *       - in: query
+ *         name: policy
+ *         schema:
+ *           type: string
+ *           enum: [block, reassign, cascade]
+ *         description: |
+ *           `block` refuses while products, subcategories or coupons use the category.
+ *           `reassign` moves them to `reassignTo` (default: the parent category).
+ *           `cascade` deletes the whole subtree if no product or coupon uses it.
+ *           Defaults to `DELETE_POLICY_CATEGORY` (block).
+ *       - in: query
+ *         name: reassignTo
+ *         schema:
+ *           type: string
+ *         description: Category that takes over the dependants with the reassign policy
  *     responses:
  *       204:
  *         description: Category deleted
  *       400:
- *         description: Invalid ID format
+ *         description: Invalid ID format, unsupported policy or invalid reassign target
  *       404:
  *         description: Category not found
+ *       409:
+ *         description: Category is still in use, `details.dependants` lists count and IDs per kind
  */
 router.delete(
   "/:id",
+  verifyToken,
+  authorize("catalog:write"),
   validate(deleteCategorySchema),
   categoryController.deleteCategory
 );
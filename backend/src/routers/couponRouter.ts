@@ -0,0 +1,184 @@
+import { Router } from "express";
+import * as couponController from "../controllers/coupons";
+import { validate } from "../middleware/validation";
+import { authorize, verifyToken } from "../middleware/auth";
+import {
+  createCouponSchema,
+  updateCouponSchema,
+  getCouponByIdSchema,
+  deleteCouponSchema,
+  listQuerySchema,
+} from "../schemas";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /coupons:
+ *   get:
+ *     summary: Get all coupons
+ *     x-permission: coupons:manage
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Page of coupons, newest first, in the list envelope (`data`, `pagination`)
+ */
+router.get(
+  "/",
+  verifyToken,
+  authorize("coupons:manage"),
+  validate(listQuerySchema),
+  couponController.getCoupons
+);
+
+/**
+ * @swagger
+ * /coupons/{id}:
+ *   get:
+ *     summary: Get coupon by ID
+ *     x-permission: coupons:manage
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Coupon ID (24-character hex string)
+ *     responses:
+ *       200:
+ *         description: Coupon found
+ *       400:
+ *         description: Invalid ID format
+ *       404:
+ *         description: Coupon not found
+ */
+router.get(
+  "/:id",
+  verifyToken,
+  authorize("coupons:manage"),
+  validate(getCouponByIdSchema),
+  couponController.getCouponById
+);
+
+/**
+ * @swagger
+ * /coupons:
+ *   post:
+ *     summary: Create a new coupon
+ *     x-permission: coupons:manage
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Coupon'
+ *           example:
+ *             code: "SUMMER20"
+ *             description: "20% off summer clothing"
+ *             type: "percentage"
+ *             value: 20
+ *             categoryIds: ["68a2e09547100dc49124f1d8"]
+ *             minOrderValue: 50
+ *             expiresAt: "2026-09-01T00:00:00.000Z"
+ *             usageLimit: 500
+ *             perUserLimit: 1
+ *     responses:
+ *       201:
+ *         description: Coupon created
+ *       400:
+ *         description: Validation error or duplicate code
+ */
+router.post(
+  "/",
+  verifyToken,
+  authorize("coupons:manage"),
+  validate(createCouponSchema),
+  couponController.createCoupon
+);
+
+/**
+ * @swagger
+ * /coupons/{id}:
+ *   put:
+ *     summary: Update coupon
+ *     description: Any field can be changed except `usedCount`. Send `null` to clear a date or limit.
+ *     x-permission: coupons:manage
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Coupon ID (24-character hex string)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Coupon'
+ *           example:
+ *             isActive: false
+ *     responses:
+ *       200:
+ *         description: Coupon updated
+ *       400:
+ *         description: Invalid ID format or validation error
+ *       404:
+ *         description: Coupon not found
+ */
+router.put(
+  "/:id",
+  verifyToken,
+  authorize("coupons:manage"),
+  validate(updateCouponSchema),
+  couponController.updateCoupon
+);
+
+/**
+ * @swagger
+ * /coupons/{id}:
+ *   delete:
+ *     summary: Delete coupon
+ *     description: Orders that used the coupon keep their recorded discount.
+ *     x-permission: coupons:manage
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Coupon ID (24-character hex string)
+ *     responses:
+ *       204:
+ *         description: Coupon deleted
+ *       400:
+ *         description: Invalid ID format
+ *       404:
+ *         description: Coupon not found
+ */
+router.delete(
+  "/:id",
+  verifyToken,
+  authorize("coupons:manage"),
+  validate(deleteCouponSchema),
+  couponController.deleteCoupon
+);
+
+export default router;
@@ -4,3 +4,10 @@ export { default as productRouter } from "./productRouter";
 export { default as orderRouter } from "./orderRouter";
 export { default as authRouter } from "./authRouter";
 export { default as aiRouter } from './aiRouter';
+export { default as cartRouter } from './cartRouter';
+export { default as couponRouter } from './couponRouter';
+export { default as paymentRouter } from './paymentRouter';
+export { default as returnRouter } from './returnRouter';
+export { default as reviewRouter } from './reviewRouter';
+export { default as trashRouter } from './trashRouter';
+export { default as meRouter } from './meRouter';
@@ -0,0 +1,31 @@
+import { Router } from "express";
+import * as orderController from "../controllers/orders";
+import { validate } from "../middleware/validation";
+import { verifyToken } from "../middleware/auth";
+import { listQuerySchema } from "../schemas";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /me/orders:
+ *   get:
+ *     summary: Get the signed-in user's orders
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Page of the user's orders, newest first, in the list envelope (`data`, `pagination`)
+ */
+router.get(
+  "/orders",
+  verifyToken,
+  validate(listQuerySchema),
+  orderController.getMyOrders
+);
+
+export default router;
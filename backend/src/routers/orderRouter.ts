@@ -1,12 +1,19 @@
 import { Router } from "express";
 import * as orderController from "../controllers/orders";
+import * as returnController from "../controllers/returns";
 import { validate } from "../middleware/validation";
+import { authorize, loadRole, verifyToken } from "../middleware/auth";
 import {
   createOrderSchema,
   updateOrderSchema,
   getOrderByIdSchema,
   deleteOrderSchema,
   getOrderTemplateSchema,
+  orderTransitionSchema,
+  createReturnSchema,
+  getOrderReturnsSchema,
+  getOrderInvoiceSchema,
+  getOrdersSchema,
 } from "../schemas";
 
 const router = Router();
@@ -16,12 +23,56 @@ const router = Router();
  * /orders:
  *   get:
  *     summary: Get all orders
+ *     description: Orders of every customer. Customers see their own orders under GET /me/orders.
+ *     x-permission: orders:manage
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         description: Only orders of this user (24-character hex string)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only orders placed at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only orders placed at or before this time
+ *       - in: query
+ *         name: minTotal
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *         description: Only orders with at least this total
+ *       - in: query
+ *         name: maxTotal
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *         description: Only orders with at most this total
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
- *         description: List of orders with populated user and product details
+ *         description: Page of orders, newest first, with populated user details and snapshotted line items, in the list envelope (`data`, `pagination`)
+ *       400:
+ *         description: Invalid filter, or a range whose start is after its end
  */
-router.get("/", orderController.getOrders);
+router.get(
+  "/",
+  verifyToken,
+  authorize("orders:manage"),
+  validate(getOrdersSchema),
+  orderController.getOrders
+);
 
 /**
  * @swagger
@@ -30,6 +81,8 @@ router.get("/", orderController.getOrders);
  *     summary: Get order template for updating
  *     description: Returns only the editable fields (userId, products) for use in PUT requests.
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -43,9 +96,58 @@ router.get("/", orderController.getOrders);
  *       400:
  *         description: Invalid ID format
  *       404:
- *         description: Order not found
+ *         description: Order not found, or placed by another customer
  */
-router.get("/:id/template", validate(getOrderTemplateSchema), orderController.getOrderTemplate);
+router.get(
+  "/:id/template",
+  verifyToken,
+  loadRole,
+  validate(getOrderTemplateSchema),
+  orderController.getOrderTemplate
+);
+
+/**
+ * @swagger
+ * /orders/{id}/invoice:
+ *   get:
+ *     summary: Download the invoice for an order
+ *     description: |
+ *       Renders the invoice as PDF, or as HTML with `?format=html` (or `Accept: text/html`).
+ *       The first request assigns a sequential, gap-free invoice number that is stored on the order
+ *       and reused for every later download. Only paid orders can be invoiced, and invoiced orders can no longer be deleted.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID (24-character hex string)
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, html]
+ *     responses:
+ *       200:
+ *         description: Invoice document
+ *         content:
+ *           application/pdf: {}
+ *           text/html: {}
+ *       404:
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Order is still pending, or was cancelled before it was invoiced
+ */
+router.get(
+  "/:id/invoice",
+  verifyToken,
+  loadRole,
+  validate(getOrderInvoiceSchema),
+  orderController.getOrderInvoice
+);
 
 /**
  * @swagger
@@ -53,6 +155,8 @@ router.get("/:id/template", validate(getOrderTemplateSchema), orderController.ge
  *   get:
  *     summary: Get order by ID
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -62,20 +166,29 @@ router.get("/:id/template", validate(getOrderTemplateSchema), orderController.ge
  *         description: Order ID (24-character hex string)
  *     responses:
  *       200:
- *         description: Order found with populated details
+ *         description: Order found with populated user and snapshotted line items
  *       400:
  *         description: Invalid ID format
  *       404:
- *         description: Order not found
+ *         description: Order not found, or placed by another customer
  */
-router.get("/:id", validate(getOrderByIdSchema), orderController.getOrderById);
+router.get(
+  "/:id",
+  verifyToken,
+  loadRole,
+  validate(getOrderByIdSchema),
+  orderController.getOrderById
+);
 
 /**
  * @swagger
  * /orders:
  *   post:
  *     summary: Create a new order
+ *     description: The order is placed for the signed-in user, whose email address has to be verified.
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -83,12 +196,8 @@ router.get("/:id", validate(getOrderByIdSchema), orderController.getOrderById);
  *           schema:
  *             type: object
  *             required:
- *               - userId
  *               - products
  *             properties:
- *               userId:
- *                 type: string
- *                 description: User ID (24-character hex string)
  *               products:
  *                 type: array
  *                 minItems: 1
@@ -101,12 +210,20 @@ router.get("/:id", validate(getOrderByIdSchema), orderController.getOrderById);
  *                     productId:
  *                       type: string
  *                       description: Product ID (24-character hex string)
+ *                     variantId:
+ *                       type: string
+ *                       description: Variant ID, required for products sold in variants
  *                     quantity:
  *                       type: integer
  *                       minimum: 1
  *                       description: Quantity of the product
+ *               couponCode:
+ *                 type: string
+ *                 description: Optional discount code
+ *               shippingRegion:
+ *                 type: string
+ *                 description: Region code for tax, e.g. "DE" (defaults to DEFAULT_TAX_REGION)
  *           example:
- *             userId: "68a2e09547100dc49124f1d9"
  *             products:
  *               - productId: "68a2e09547100dc49124f1da"
  *                 quantity: 2
@@ -114,11 +231,20 @@ router.get("/:id", validate(getOrderByIdSchema), orderController.getOrderById);
  *                 quantity: 1
  *     responses:
  *       201:
- *         description: Order created with calculated total
+ *         description: Order created with subtotal, discount, shipping, tax and total; stock is reserved
  *       400:
- *         description: Validation error, user not found, or product not found
+ *         description: Validation error, user not found, product not found, or coupon not applicable
+ *       403:
+ *         description: Email address is not verified yet
+ *       409:
+ *         description: Insufficient stock, the error names the product
  */
-router.post("/", validate(createOrderSchema), orderController.createOrder);
+router.post(
+  "/",
+  verifyToken,
+  validate(createOrderSchema),
+  orderController.createOrder
+);
 
 /**
  * @swagger
@@ -131,8 +257,12 @@ router.post("/", validate(createOrderSchema), orderController.createOrder);
  *       2. Modify the returned data as needed
  *       3. Send the modified data in this PUT request
  *       
- *       **Note:** The `total` will be automatically recalculated based on current product prices.
+ *       **Note:** The `total` is recalculated from the line items. Products already on the order keep
+ *       the unit price captured when they were added; new products are priced at their current price.
+ *       Only `pending` orders can be edited; use the status endpoints to move an order forward.
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -149,7 +279,7 @@ router.post("/", validate(createOrderSchema), orderController.createOrder);
  *             properties:
  *               userId:
  *                 type: string
- *                 description: User ID (24-character hex string)
+ *                 description: Move the order to another customer (24-character hex string, staff only)
  *               products:
  *                 type: array
  *                 minItems: 1
@@ -162,10 +292,20 @@ router.post("/", validate(createOrderSchema), orderController.createOrder);
  *                     productId:
  *                       type: string
  *                       description: Product ID (24-character hex string)
+ *                     variantId:
+ *                       type: string
+ *                       description: Variant ID, required for products sold in variants
  *                     quantity:
  *                       type: integer
  *                       minimum: 1
  *                       description: Quantity of the product
+ *               couponCode:
+ *                 type: string
+ *                 nullable: true
+ *                 description: New discount code, or null to remove the current one
+ *               shippingRegion:
+ *                 type: string
+ *                 description: Region code for tax, e.g. "DE"
  *           example:
  *             products:
  *               - productId: "68a2e09547100dc49124f1da"
@@ -175,17 +315,337 @@ router.post("/", validate(createOrderSchema), orderController.createOrder);
  *         description: Order updated with recalculated total
  *       400:
  *         description: Invalid ID format, validation error, or product not found
+ *       403:
+ *         description: A customer tried to change `userId`
+ *       404:
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Order is no longer pending
+ */
+router.put(
+  "/:id",
+  verifyToken,
+  loadRole,
+  validate(updateOrderSchema),
+  orderController.updateOrder
+);
+
+/**
+ * @swagger
+ * /orders/{id}/pay:
+ *   post:
+ *     summary: Mark order as paid
+ *     description: Moves the order to `paid`. Only allowed from pending. The change is recorded in `statusHistory`.
+ *     x-permission: orders:manage
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Optional note stored with the status change
+ *     responses:
+ *       200:
+ *         description: Order with updated status and history
+ *       404:
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Transition not allowed from the current status
+ */
+router.post(
+  "/:id/pay",
+  verifyToken,
+  authorize("orders:manage"),
+  validate(orderTransitionSchema),
+  orderController.transitionOrder("paid")
+);
+
+/**
+ * @swagger
+ * /orders/{id}/process:
+ *   post:
+ *     summary: Start processing a paid order
+ *     description: Moves the order to `processing`. Only allowed from paid. The change is recorded in `statusHistory`.
+ *     x-permission: orders:manage
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Optional note stored with the status change
+ *     responses:
+ *       200:
+ *         description: Order with updated status and history
+ *       404:
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Transition not allowed from the current status
+ */
+router.post(
+  "/:id/process",
+  verifyToken,
+  authorize("orders:manage"),
+  validate(orderTransitionSchema),
+  orderController.transitionOrder("processing")
+);
+
+/**
+ * @swagger
+ * /orders/{id}/ship:
+ *   post:
+ *     summary: Mark order as shipped
+ *     description: Moves the order to `shipped`. Only allowed from processing. The change is recorded in `statusHistory`.
+ *     x-permission: orders:manage
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Optional note stored with the status change
+ *     responses:
+ *       200:
+ *         description: Order with updated status and history
+ *       404:
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Transition not allowed from the current status
+ */
+router.post(
+  "/:id/ship",
+  verifyToken,
+  authorize("orders:manage"),
+  validate(orderTransitionSchema),
+  orderController.transitionOrder("shipped")
+);
+
+/**
+ * @swagger
+ * /orders/{id}/deliver:
+ *   post:
+ *     summary: Mark order as delivered
+ *     description: Moves the order to `delivered`. Only allowed from shipped. The change is recorded in `statusHistory`.
+ *     x-permission: orders:manage
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Optional note stored with the status change
+ *     responses:
+ *       200:
+ *         description: Order with updated status and history
+ *       404:
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Transition not allowed from the current status
+ */
+router.post(
+  "/:id/deliver",
+  verifyToken,
+  authorize("orders:manage"),
+  validate(orderTransitionSchema),
+  orderController.transitionOrder("delivered")
+);
+
+/**
+ * @swagger
+ * /orders/{id}/cancel:
+ *   post:
+ *     summary: Cancel an order
+ *     description: Moves the order to `cancelled`. Staff can cancel pending, paid or processing orders; customers only their own pending orders. The change is recorded in `statusHistory`.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Optional note stored with the status change
+ *     responses:
+ *       200:
+ *         description: Order with updated status and history
+ *       404:
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Transition not allowed from the current status, or a customer cancelling an order that is no longer pending
+ */
+router.post(
+  "/:id/cancel",
+  verifyToken,
+  loadRole,
+  validate(orderTransitionSchema),
+  orderController.transitionOrder("cancelled")
+);
+
+/**
+ * @swagger
+ * /orders/{id}/returns:
+ *   get:
+ *     summary: Get the returns filed against an order
+ *     tags: [Orders, Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID (24-character hex string)
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Page of returns for the order, newest first, in the list envelope (`data`, `pagination`)
+ *       404:
+ *         description: Order not found, or placed by another customer
+ */
+router.get(
+  "/:id/returns",
+  verifyToken,
+  loadRole,
+  validate(getOrderReturnsSchema),
+  returnController.getOrderReturns
+);
+
+/**
+ * @swagger
+ * /orders/{id}/returns:
+ *   post:
+ *     summary: Request a return for items of a delivered order
+ *     tags: [Orders, Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID (24-character hex string)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *               - reason
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 minItems: 1
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - productId
+ *                     - quantity
+ *                   properties:
+ *                     productId:
+ *                       type: string
+ *                     variantId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *               reason:
+ *                 type: string
+ *           example:
+ *             items:
+ *               - productId: "68a2e09547100dc49124f1da"
+ *                 quantity: 1
+ *             reason: "Wrong size"
+ *     responses:
+ *       201:
+ *         description: Return requested
+ *       400:
+ *         description: Product not on the order or quantity exceeds what can still be returned
  *       404:
- *         description: Order not found
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Order has not been delivered, or a concurrent return already claimed the items
  */
-router.put("/:id", validate(updateOrderSchema), orderController.updateOrder);
+router.post(
+  "/:id/returns",
+  verifyToken,
+  loadRole,
+  validate(createReturnSchema),
+  returnController.createReturn
+);
 
 /**
  * @swagger
  * /orders/{id}:
  *   delete:
  *     summary: Delete order
+ *     description: Orders with returns or an invoice cannot be deleted, so refunds and invoice numbers stay intact.
+ *     x-permission: orders:manage
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -199,8 +659,16 @@ router.put("/:id", validate(updateOrderSchema), orderController.updateOrder);
  *       400:
  *         description: Invalid ID format
  *       404:
- *         description: Order not found
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Order has returns or an invoice
  */
-router.delete("/:id", validate(deleteOrderSchema), orderController.deleteOrder);
+router.delete(
+  "/:id",
+  verifyToken,
+  authorize("orders:manage"),
+  validate(deleteOrderSchema),
+  orderController.deleteOrder
+);
 
 export default router;
@@ -0,0 +1,249 @@
+import { Router } from "express";
+import * as paymentController from "../controllers/payments";
+import { validate } from "../middleware/validation";
+import { authorize, loadRole, verifyToken } from "../middleware/auth";
+import {
+  createPaymentSchema,
+  getPaymentsSchema,
+  getPaymentByIdSchema,
+  capturePaymentSchema,
+  refundPaymentSchema,
+} from "../schemas";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /payments/webhook:
+ *   post:
+ *     summary: Receive a signed payment provider callback
+ *     description: |
+ *       Verifies the `X-Payment-Signature` header and applies the event to the payment and its order.
+ *       `payment.succeeded` marks the order as paid, `payment.failed` records the failure.
+ *       Events are identified by `id` and applied once.
+ *
+ *       The mock provider signs with `PAYMENT_WEBHOOK_SECRET`: the header is `t=<unix seconds>,v1=<hex>`
+ *       where `<hex>` is the HMAC-SHA256 of `<t>.<raw body>`. Without a secret every webhook is refused.
+ *     tags: [Payments]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *         description: Provider that sent the callback (defaults to PAYMENT_PROVIDER)
+ *       - in: header
+ *         name: X-Payment-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [payment.succeeded, payment.failed, payment.refunded]
+ *               providerRef:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *               failureReason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Event received
+ *       400:
+ *         description: Invalid signature or payload
+ *       404:
+ *         description: Unknown payment
+ *       503:
+ *         description: Webhooks are disabled because PAYMENT_WEBHOOK_SECRET is not set
+ */
+router.post("/webhook", paymentController.handlePaymentWebhook);
+
+/**
+ * @swagger
+ * /payments:
+ *   get:
+ *     summary: Get payment attempts
+ *     x-permission: payments:manage
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: orderId
+ *         schema:
+ *           type: string
+ *         description: Only payments for this order (24-character hex string)
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Page of payments, newest first, in the list envelope (`data`, `pagination`)
+ */
+router.get(
+  "/",
+  verifyToken,
+  authorize("payments:manage"),
+  validate(getPaymentsSchema),
+  paymentController.getPayments
+);
+
+/**
+ * @swagger
+ * /payments/{id}:
+ *   get:
+ *     summary: Get payment by ID
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Payment ID (24-character hex string)
+ *     responses:
+ *       200:
+ *         description: Payment with refunds and received events
+ *       404:
+ *         description: Payment not found, or made by another customer
+ */
+router.get(
+  "/:id",
+  verifyToken,
+  loadRole,
+  validate(getPaymentByIdSchema),
+  paymentController.getPaymentById
+);
+
+/**
+ * @swagger
+ * /payments:
+ *   post:
+ *     summary: Create a payment intent for a pending order
+ *     description: The amount is taken from the order total. The response contains a `clientSecret` that is only returned once.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderId
+ *             properties:
+ *               orderId:
+ *                 type: string
+ *               provider:
+ *                 type: string
+ *                 description: Payment provider (defaults to PAYMENT_PROVIDER, `mock` out of the box)
+ *               paymentMethod:
+ *                 type: string
+ *                 description: Provider payment method; the mock provider accepts `mock_card_ok` and `mock_card_declined`
+ *     responses:
+ *       201:
+ *         description: Payment intent created
+ *       404:
+ *         description: Order not found, or placed by another customer
+ *       409:
+ *         description: Order is not pending, or already has a payment awaiting capture
+ */
+router.post(
+  "/",
+  verifyToken,
+  loadRole,
+  validate(createPaymentSchema),
+  paymentController.createPayment
+);
+
+/**
+ * @swagger
+ * /payments/{id}/capture:
+ *   post:
+ *     summary: Capture a payment intent
+ *     description: On success the order is marked as paid; on failure the attempt is recorded and the order stays pending.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Payment ID (24-character hex string)
+ *     responses:
+ *       200:
+ *         description: Payment captured
+ *       402:
+ *         description: Payment failed, see `failureReason`
+ *       404:
+ *         description: Payment not found, or made by another customer
+ *       409:
+ *         description: Payment is not awaiting capture, or the order was edited, paid or cancelled after the payment was started (the payment is marked failed)
+ */
+router.post(
+  "/:id/capture",
+  verifyToken,
+  loadRole,
+  validate(capturePaymentSchema),
+  paymentController.capturePayment
+);
+
+/**
+ * @swagger
+ * /payments/{id}/refund:
+ *   post:
+ *     summary: Refund a captured payment
+ *     x-permission: payments:manage
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Payment ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount to refund, defaults to the remaining captured amount
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment with the new refund
+ *       400:
+ *         description: Amount exceeds what is left to refund
+ *       404:
+ *         description: Payment not found
+ *       409:
+ *         description: Payment is not captured
+ */
+router.post(
+  "/:id/refund",
+  verifyToken,
+  authorize("payments:manage"),
+  validate(refundPaymentSchema),
+  paymentController.refundPayment
+);
+
+export default router;
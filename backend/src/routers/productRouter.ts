@@ -1,12 +1,30 @@
 import { Router } from "express";
 import * as productController from "../controllers/products";
+import * as reviewController from "../controllers/reviews";
 import { validate } from "../middleware/validation";
+import { authorize, verifyToken } from "../middleware/auth";
+import { uploadCatalog, uploadImages } from "../middleware/upload";
+import * as productImageController from "../controllers/productImages";
+import * as productPriceController from "../controllers/productPrices";
 import {
   createProductSchema,
   updateProductSchema,
   getProductByIdSchema,
   getProductsSchema,
   deleteProductSchema,
+  getProductReviewsSchema,
+  createReviewSchema,
+  updateReviewSchema,
+  deleteReviewSchema,
+  uploadProductImagesSchema,
+  reorderProductImagesSchema,
+  productImageSchema,
+  importProductsSchema,
+  exportProductsSchema,
+  getPriceHistorySchema,
+  getRelatedProductsSchema,
+  createSaleSchema,
+  endSaleSchema,
 } from "../schemas";
 
 const router = Router();
@@ -15,22 +33,225 @@ const router = Router();
  * @swagger
  * /products:
  *   get:
- *     summary: Get all products
+ *     summary: Search products
+ *     description: |
+ *       Full-text search over name and description with category, price and option filters.
+ *       Prices refer to the lowest price a product sells for, taking variant overrides into account.
+ *       Facet counts ignore their own filter, so the category counts show matches in every category
+ *       and the price counts show matches in every price bucket.
  *     tags: [Products]
  *     parameters:
  *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Search text, ranked by relevance (name matches weigh more)
+ *       - in: query
  *         name: categoryId
  *         schema:
  *           type: string
- *         description: Filter by category ID (24-character hex string)
+ *         description: One or more category IDs, comma-separated
+ *       - in: query
+ *         name: includeDescendants
+ *         schema:
+ *           type: boolean
+ *         description: Also match products in every subcategory of the requested categories
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: options
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *         description: Variant option filters with comma-separated values, e.g. `options[size]=M,L`; option names may only contain letters, digits, `_`, `-` and spaces
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [relevance, newest, price_asc, price_desc, rating]
+ *         description: Defaults to relevance when searching, newest otherwise. `rating` sorts by average rating, best first
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
- *         description: List of products
+ *         description: Page of matching products with the total and facet counts in `meta`
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Product'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     total:
+ *                       type: integer
+ *                     facets:
+ *                       type: object
+ *                       properties:
+ *                         categories:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               categoryId:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                               count:
+ *                                 type: integer
+ *                         prices:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               min:
+ *                                 type: number
+ *                               max:
+ *                                 type: number
+ *                                 nullable: true
+ *                               count:
+ *                                 type: integer
  *       400:
- *         description: Invalid categoryId format
+ *         description: Invalid query parameters or cursor
  */
 router.get("/", validate(getProductsSchema), productController.getProducts);
 
+/**
+ * @swagger
+ * /products/export:
+ *   get:
+ *     summary: Export the catalog as CSV or JSON
+ *     description: |
+ *       Produces one entry per product with the columns id, name, description, price, category (breadcrumb),
+ *       stock, weight, options and variants. In CSV, options and variants are JSON cells.
+ *       The file can be edited and imported again with POST /products/import.
+ *     x-permission: catalog:write
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json]
+ *           default: csv
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: string
+ *         description: Only export products of these categories (comma-separated IDs)
+ *     responses:
+ *       200:
+ *         description: Catalog file download
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ */
+router.get(
+  "/export",
+  verifyToken,
+  authorize("catalog:write"),
+  validate(exportProductsSchema),
+  productController.exportProducts
+);
+
+/**
+ * @swagger
+ * /products/import:
+ *   post:
+ *     summary: Import products from CSV or JSON
+ *     description: |
+ *       Takes the format produced by GET /products/export, either uploaded as `file` or as a JSON body.
+ *       Entries with an `id` update that product, all others are created. Each entry is validated
+ *       like POST /products and reported on its own; failed rows don't stop the others.
+ *       `category` is a category ID, a breadcrumb such as "Clothing > Shirts" or a unique name.
+ *     x-permission: catalog:write
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json]
+ *         description: Defaults to the file extension, or json for a JSON body
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *         description: Validate and report without writing anything
+ *       - in: query
+ *         name: createCategories
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *         description: Create missing categories, defaults to IMPORT_CREATE_CATEGORIES
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               type: object
+ *           example:
+ *             - name: "Linen Shirt"
+ *               description: "Breathable summer shirt"
+ *               price: 39.9
+ *               category: "Clothing > Shirts"
+ *               stock: 25
+ *     responses:
+ *       200:
+ *         description: Per-row import report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportReport'
+ *       400:
+ *         description: Missing or unreadable catalog
+ */
+router.post(
+  "/import",
+  verifyToken,
+  authorize("catalog:write"),
+  validate(importProductsSchema),
+  uploadCatalog("file"),
+  productController.importProducts
+);
+
 /**
  * @swagger
  * /products/{id}:
@@ -63,7 +284,10 @@ router.get(
  * /products:
  *   post:
  *     summary: Create a new product
+ *     x-permission: catalog:write
  *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -91,19 +315,40 @@ router.get(
  *               categoryId:
  *                 type: string
  *                 description: Category ID (24-character hex string)
+ *               stock:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Units available for sale (defaults to 0)
+ *               weight:
+ *                 type: number
+ *                 minimum: 0
+ *                 description: Shipping weight in kg, used by weight-based shipping
+ *               options:
+ *                 type: array
+ *                 description: Option axes the variants pick their values from
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductOption'
+ *               variants:
+ *                 type: array
+ *                 description: Sellable combinations with their own SKU, price override and stock
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductVariant'
  *           example:
  *             name: "iPhone 15"
  *             description: "Latest smartphone with advanced features"
  *             price: 999.99
  *             categoryId: "68a2e09547100dc49124f1d8"
+ *             stock: 25
  *     responses:
  *       201:
  *         description: Product created
  *       400:
- *         description: Validation error or category not found
+ *         description: Validation error, invalid variants (details lists each problem) or category not found
  */
 router.post(
   "/",
+  verifyToken,
+  authorize("catalog:write"),
   validate(createProductSchema),
   productController.createProduct
 );
@@ -113,7 +358,10 @@ router.post(
  * /products/{id}:
  *   put:
  *     summary: Update product
+ *     x-permission: catalog:write
  *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -143,6 +391,24 @@ router.post(
  *               categoryId:
  *                 type: string
  *                 description: Category ID (24-character hex string)
+ *               stock:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Units available for sale (defaults to 0)
+ *               weight:
+ *                 type: number
+ *                 minimum: 0
+ *                 description: Shipping weight in kg, used by weight-based shipping
+ *               options:
+ *                 type: array
+ *                 description: Option axes the variants pick their values from
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductOption'
+ *               variants:
+ *                 type: array
+ *                 description: Sellable combinations with their own SKU, price override and stock
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductVariant'
  *           example:
  *             name: "iPhone 15 Pro"
  *             price: 1199.99
@@ -150,12 +416,14 @@ router.post(
  *       200:
  *         description: Product updated
  *       400:
- *         description: Invalid ID format, validation error, or category not found
+ *         description: Invalid ID format, validation error, invalid variants, or category not found
  *       404:
  *         description: Product not found
  */
 router.put(
   "/:id",
+  verifyToken,
+  authorize("catalog:write"),
   validate(updateProductSchema),
   productController.updateProduct
 );
@@ -165,7 +433,10 @@ router.put(
  * /products/{id}:
  *   delete:
  *     summary: Delete product
+ *     x-permission: catalog:write
  *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -173,18 +444,558 @@ router.put(
  *         schema:
  *           type: string
  *         description: Product ID (24-character hex string)
+ *       - in: query
+ *         name: policy
+ *         schema:
+ *           type: string
+ *           enum: [block, cascade]
+ *         description: |
+ *           Ordered products can be deleted but are never purged from the trash. `block` refuses while the product is in a cart,
+ *           `cascade` removes it from carts. Defaults to `DELETE_POLICY_PRODUCT` (block).
  *     responses:
  *       204:
  *         description: Product deleted
  *       400:
- *         description: Invalid ID format
+ *         description: Invalid ID format or unsupported policy
  *       404:
  *         description: Product not found
+ *       409:
+ *         description: Product is still in a cart (policy `block`), `details.dependants` lists count and IDs per kind
  */
 router.delete(
   "/:id",
+  verifyToken,
+  authorize("catalog:write"),
   validate(deleteProductSchema),
   productController.deleteProduct
 );
 
+/**
+ * @swagger
+ * /products/{id}/reviews:
+ *   get:
+ *     summary: Get the approved reviews of a product
+ *     tags: [Products, Reviews]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID (24-character hex string)
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Page of reviews, newest first, in the list envelope (`data`, `pagination`)
+ *       404:
+ *         description: Product not found
+ */
+router.get(
+  "/:id/reviews",
+  validate(getProductReviewsSchema),
+  reviewController.getProductReviews
+);
+
+/**
+ * @swagger
+ * /products/{id}/reviews:
+ *   post:
+ *     summary: Review a product
+ *     description: |
+ *       Only customers with a delivered order containing the product can review it, once per product.
+ *       New reviews are pending until a moderator approves them.
+ *     tags: [Products, Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID (24-character hex string)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *               - body
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               title:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *           example:
+ *             rating: 5
+ *             title: "Great fit"
+ *             body: "Fits perfectly and the fabric feels great."
+ *     responses:
+ *       201:
+ *         description: Review created and waiting for moderation
+ *       403:
+ *         description: The user has not received this product
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: The user already reviewed this product
+ */
+router.post(
+  "/:id/reviews",
+  verifyToken,
+  validate(createReviewSchema),
+  reviewController.createReview
+);
+
+/**
+ * @swagger
+ * /products/{id}/reviews/{reviewId}:
+ *   put:
+ *     summary: Edit your review
+ *     description: The edited review goes back to moderation.
+ *     tags: [Products, Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               title:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Review updated
+ *       404:
+ *         description: Review not found or not yours
+ */
+router.put(
+  "/:id/reviews/:reviewId",
+  verifyToken,
+  validate(updateReviewSchema),
+  reviewController.updateReview
+);
+
+/**
+ * @swagger
+ * /products/{id}/reviews/{reviewId}:
+ *   delete:
+ *     summary: Delete your review
+ *     tags: [Products, Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Review deleted
+ *       404:
+ *         description: Review not found or not yours
+ */
+router.delete(
+  "/:id/reviews/:reviewId",
+  verifyToken,
+  validate(deleteReviewSchema),
+  reviewController.deleteReview
+);
+
+/**
+ * @swagger
+ * /products/{id}/images:
+ *   post:
+ *     summary: Upload product images
+ *     description: |
+ *       Accepts JPEG, PNG or WebP files of at most 5 MB each (MAX_IMAGE_SIZE_MB), up to 10 images per product.
+ *       A thumbnail is generated for every image. New images are appended; the first image of a product becomes its primary image.
+ *     x-permission: catalog:write
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID (24-character hex string)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - images
+ *             properties:
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Images uploaded, returns the product
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Product'
+ *       400:
+ *         description: No images, unsupported type, file too large or too many images
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: A concurrent upload used up the remaining image slots
+ */
+router.post(
+  "/:id/images",
+  verifyToken,
+  authorize("catalog:write"),
+  validate(uploadProductImagesSchema),
+  uploadImages("images"),
+  productImageController.uploadProductImages
+);
+
+/**
+ * @swagger
+ * /products/{id}/images/order:
+ *   put:
+ *     summary: Reorder product images
+ *     x-permission: catalog:write
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - imageIds
+ *             properties:
+ *               imageIds:
+ *                 type: array
+ *                 description: Every image ID of the product, in the new order
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Images reordered, returns the product
+ *       400:
+ *         description: imageIds doesn't list every image exactly once
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: Images were added or removed concurrently
+ */
+router.put(
+  "/:id/images/order",
+  verifyToken,
+  authorize("catalog:write"),
+  validate(reorderProductImagesSchema),
+  productImageController.reorderProductImages
+);
+
+/**
+ * @swagger
+ * /products/{id}/images/{imageId}/primary:
+ *   post:
+ *     summary: Make an image the primary product image
+ *     x-permission: catalog:write
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: imageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Primary image set, returns the product
+ *       404:
+ *         description: Product image not found
+ */
+router.post(
+  "/:id/images/:imageId/primary",
+  verifyToken,
+  authorize("catalog:write"),
+  validate(productImageSchema),
+  productImageController.setPrimaryProductImage
+);
+
+/**
+ * @swagger
+ * /products/{id}/images/{imageId}:
+ *   delete:
+ *     summary: Delete a product image
+ *     description: Removes the image and its thumbnail. Deleting the primary image makes the first remaining image primary.
+ *     x-permission: catalog:write
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: imageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Image deleted
+ *       404:
+ *         description: Product image not found
+ */
+router.delete(
+  "/:id/images/:imageId",
+  verifyToken,
+  authorize("catalog:write"),
+  validate(productImageSchema),
+  productImageController.deleteProductImage
+);
+
+/**
+ * @swagger
+ * /products/{id}/related:
+ *   get:
+ *     summary: Get products frequently bought together with a product
+ *     description: |
+ *       Ranked by how often they were bought in the same paid order, topped up with
+ *       the best rated products of the same category.
+ *     tags: [Products]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Recommended products, best match first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Recommendation'
+ *       404:
+ *         description: Product not found
+ */
+router.get(
+  "/:id/related",
+  validate(getRelatedProductsSchema),
+  productController.getRelatedProducts
+);
+
+/**
+ * @swagger
+ * /products/{id}/price-history:
+ *   get:
+ *     summary: Get the price history of a product
+ *     description: |
+ *       Every regular price change and every scheduled sale, newest first, with who made it.
+ *       `meta.lowestPrices` holds the lowest price of each variant (or of the product) over the last `days` days,
+ *       counting sales, for "lowest price in the last 30 days" notices.
+ *     x-permission: catalog:write
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
+ *         description: Only this variant, plus the product-wide entries it inherits
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *           default: 30
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Page of price changes in the list envelope (`data`, `pagination`, `meta.lowestPrices`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PriceChange'
+ *       404:
+ *         description: Product or variant not found
+ */
+router.get(
+  "/:id/price-history",
+  verifyToken,
+  authorize("catalog:write"),
+  validate(getPriceHistorySchema),
+  productPriceController.getPriceHistory
+);
+
+/**
+ * @swagger
+ * /products/{id}/sales:
+ *   post:
+ *     summary: Schedule a sale price
+ *     description: |
+ *       Between `startsAt` and `endsAt` the sale price replaces the regular price in product responses
+ *       (`currentPrice`), carts, orders and price filters, unless the regular price is lower.
+ *       Overlapping sales are allowed; the cheapest one applies.
+ *     x-permission: catalog:write
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - price
+ *               - endsAt
+ *             properties:
+ *               variantId:
+ *                 type: string
+ *                 description: Omit to put every variant on sale
+ *               price:
+ *                 type: number
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *           example:
+ *             price: 19.99
+ *             startsAt: "2026-11-27T00:00:00Z"
+ *             endsAt: "2026-11-30T23:59:59Z"
+ *     responses:
+ *       201:
+ *         description: Sale scheduled, returns the product
+ *       400:
+ *         description: Invalid sale window or unknown variant
+ *       404:
+ *         description: Product not found
+ */
+router.post(
+  "/:id/sales",
+  verifyToken,
+  authorize("catalog:write"),
+  validate(createSaleSchema),
+  productPriceController.createSale
+);
+
+/**
+ * @swagger
+ * /products/{id}/sales/{saleId}:
+ *   delete:
+ *     summary: End or cancel a sale
+ *     description: A running sale ends now, a scheduled one is cancelled. The price history keeps the sale.
+ *     x-permission: catalog:write
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: saleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Sale ended
+ *       404:
+ *         description: Sale not found
+ */
+router.delete(
+  "/:id/sales/:saleId",
+  verifyToken,
+  authorize("catalog:write"),
+  validate(endSaleSchema),
+  productPriceController.endSale
+);
+
 export default router;
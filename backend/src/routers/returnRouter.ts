@@ -0,0 +1,255 @@
+import { Router } from "express";
+import * as returnController from "../controllers/returns";
+import { validate } from "../middleware/validation";
+import { authorize, loadRole, verifyToken } from "../middleware/auth";
+import {
+  getReturnsSchema,
+  getReturnByIdSchema,
+  reviewReturnSchema,
+  receiveReturnSchema,
+  refundReturnSchema,
+} from "../schemas";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /returns:
+ *   get:
+ *     summary: Get return requests
+ *     x-permission: returns:manage
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [requested, approved, rejected, received, refunded]
+ *       - in: query
+ *         name: orderId
+ *         schema:
+ *           type: string
+ *         description: Order ID (24-character hex string)
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Page of returns, newest first, in the list envelope (`data`, `pagination`)
+ */
+router.get(
+  "/",
+  verifyToken,
+  authorize("returns:manage"),
+  validate(getReturnsSchema),
+  returnController.getReturns
+);
+
+/**
+ * @swagger
+ * /returns/{id}:
+ *   get:
+ *     summary: Get return by ID
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID (24-character hex string)
+ *     responses:
+ *       200:
+ *         description: Return with items, status history and refund
+ *       404:
+ *         description: Return not found, or filed by another customer
+ */
+router.get(
+  "/:id",
+  verifyToken,
+  loadRole,
+  validate(getReturnByIdSchema),
+  returnController.getReturnById
+);
+
+/**
+ * @swagger
+ * /returns/{id}/approve:
+ *   post:
+ *     summary: Approve a return request
+ *     x-permission: returns:manage
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return approved
+ *       404:
+ *         description: Return not found
+ *       409:
+ *         description: Return is not awaiting review
+ */
+router.post(
+  "/:id/approve",
+  verifyToken,
+  authorize("returns:manage"),
+  validate(reviewReturnSchema),
+  returnController.approveReturn
+);
+
+/**
+ * @swagger
+ * /returns/{id}/reject:
+ *   post:
+ *     summary: Reject a return request
+ *     description: Rejected quantities become returnable again.
+ *     x-permission: returns:manage
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return rejected
+ *       404:
+ *         description: Return not found
+ *       409:
+ *         description: Return can no longer be rejected
+ */
+router.post(
+  "/:id/reject",
+  verifyToken,
+  authorize("returns:manage"),
+  validate(reviewReturnSchema),
+  returnController.rejectReturn
+);
+
+/**
+ * @swagger
+ * /returns/{id}/receive:
+ *   post:
+ *     summary: Record that returned goods arrived
+ *     description: Goods received `unopened` or `like_new` are put back in stock automatically.
+ *     x-permission: returns:manage
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID (24-character hex string)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - condition
+ *             properties:
+ *               condition:
+ *                 type: string
+ *                 enum: [unopened, like_new, used, damaged]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return received
+ *       404:
+ *         description: Return not found
+ *       409:
+ *         description: Return is not approved
+ */
+router.post(
+  "/:id/receive",
+  verifyToken,
+  authorize("returns:manage"),
+  validate(receiveReturnSchema),
+  returnController.receiveReturn
+);
+
+/**
+ * @swagger
+ * /returns/{id}/refund:
+ *   post:
+ *     summary: Refund a received return
+ *     description: |
+ *       Refunds against the order's captured payment. By default the returned lines' share of what was paid
+ *       for goods is refunded (coupon discounts and tax proportionally, shipping excluded).
+ *       The original order is kept; its `refundedTotal` and `paymentStatus` are updated.
+ *     x-permission: returns:manage
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Custom refund amount
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return refunded
+ *       400:
+ *         description: Amount exceeds what is left to refund
+ *       404:
+ *         description: Return not found
+ *       409:
+ *         description: Return not received yet, or no captured payment
+ */
+router.post(
+  "/:id/refund",
+  verifyToken,
+  authorize("returns:manage"),
+  validate(refundReturnSchema),
+  returnController.refundReturn
+);
+
+export default router;
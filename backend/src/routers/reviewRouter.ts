@@ -0,0 +1,128 @@
+import { Router } from "express";
+import * as reviewController from "../controllers/reviews";
+import { validate } from "../middleware/validation";
+import { authorize, verifyToken } from "../middleware/auth";
+import { getReviewsSchema, moderateReviewSchema } from "../schemas";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /reviews:
+ *   get:
+ *     summary: Get the review moderation queue
+ *     description: Lists pending reviews oldest first, or reviews with another status via `status`.
+ *     x-permission: reviews:moderate
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *           default: pending
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: string
+ *         description: Only reviews of this product (24-character hex string)
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Page of reviews in the list envelope (`data`, `pagination`)
+ */
+router.get(
+  "/",
+  verifyToken,
+  authorize("reviews:moderate"),
+  validate(getReviewsSchema),
+  reviewController.getReviews
+);
+
+/**
+ * @swagger
+ * /reviews/{id}/approve:
+ *   post:
+ *     summary: Approve a review
+ *     description: Approved reviews are public and count towards the product rating.
+ *     x-permission: reviews:moderate
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Review approved
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: Review is already approved or was moderated concurrently
+ */
+router.post(
+  "/:id/approve",
+  verifyToken,
+  authorize("reviews:moderate"),
+  validate(moderateReviewSchema),
+  reviewController.moderateReview("approved")
+);
+
+/**
+ * @swagger
+ * /reviews/{id}/reject:
+ *   post:
+ *     summary: Reject a review
+ *     description: Rejected reviews are hidden and no longer count towards the product rating.
+ *     x-permission: reviews:moderate
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID (24-character hex string)
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Reason for the rejection
+ *     responses:
+ *       200:
+ *         description: Review rejected
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: Review is already rejected or was moderated concurrently
+ */
+router.post(
+  "/:id/reject",
+  verifyToken,
+  authorize("reviews:moderate"),
+  validate(moderateReviewSchema),
+  reviewController.moderateReview("rejected")
+);
+
+export default router;
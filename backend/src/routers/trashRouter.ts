@@ -0,0 +1,82 @@
+import { Router } from "express";
+import * as trashController from "../controllers/trash";
+import { validate } from "../middleware/validation";
+import { authorize, verifyToken } from "../middleware/auth";
+import { getTrashSchema, restoreFromTrashSchema } from "../schemas";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /trash/{type}:
+ *   get:
+ *     summary: List deleted products, categories or users
+ *     description: |
+ *       Deleted documents stay in the trash until they are restored or purged,
+ *       which happens TRASH_RETENTION_DAYS (default 30) after deletion.
+ *     x-permission: trash:manage
+ *     tags: [Trash]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [products, categories, users]
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Page of deleted documents, most recently deleted first, in the list envelope (`data`, `pagination`)
+ */
+router.get(
+  "/:type",
+  verifyToken,
+  authorize("trash:manage"),
+  validate(getTrashSchema),
+  trashController.getTrash
+);
+
+/**
+ * @swagger
+ * /trash/{type}/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted product, category or user
+ *     description: |
+ *       Products need their category to be live and categories their parent.
+ *       Restoring a category also restores the subcategories deleted with it.
+ *     x-permission: trash:manage
+ *     tags: [Trash]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [products, categories, users]
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Restored document
+ *       404:
+ *         description: Not found in the trash
+ *       409:
+ *         description: Its category or parent is deleted, or a live document has the same name, SKU or email
+ */
+router.post(
+  "/:type/:id/restore",
+  verifyToken,
+  authorize("trash:manage"),
+  validate(restoreFromTrashSchema),
+  trashController.restoreFromTrash
+);
+
+export default router;
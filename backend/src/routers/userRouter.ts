@@ -1,11 +1,14 @@
 import { Router } from "express";
 import * as userController from "../controllers/users";
 import { validate } from "../middleware/validation";
+import { authorize, verifyToken } from "../middleware/auth";
 import {
   createUserSchema,
   updateUserSchema,
   getUserByIdSchema,
   deleteUserSchema,
+  listQuerySchema,
+  getUserRecommendationsSchema,
 } from "../schemas";
 
 const router = Router();
@@ -15,19 +18,35 @@ const router = Router();
  * /users:
  *   get:
  *     summary: Get all users
+ *     x-permission: users:read
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
- *         description: List of users
+ *         description: Page of users, newest first, in the list envelope (`data`, `pagination`)
  */
-router.get("/", userController.getUsers);
+router.get(
+  "/",
+  verifyToken,
+  authorize("users:read"),
+  validate(listQuerySchema),
+  userController.getUsers
+);
 
 /**
  * @swagger
  * /users/{id}:
  *   get:
  *     summary: Get user by ID
+ *     x-permission: users:read
+ *     x-allow-self: true
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -40,14 +59,69 @@ router.get("/", userController.getUsers);
  *       404:
  *         description: User not found
  */
-router.get("/:id", validate(getUserByIdSchema), userController.getUserById);
+router.get(
+  "/:id",
+  verifyToken,
+  authorize("users:read", { self: "id" }),
+  validate(getUserByIdSchema),
+  userController.getUserById
+);
+
+/**
+ * @swagger
+ * /users/{id}/recommendations:
+ *   get:
+ *     summary: Get product recommendations for a user
+ *     description: |
+ *       Products often bought together with the user's recent purchases, then the best rated
+ *       products of the same categories. Users without purchases get popular products.
+ *     x-permission: users:read
+ *     x-allow-self: true
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Recommended products, best match first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Recommendation'
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  "/:id/recommendations",
+  verifyToken,
+  authorize("users:read", { self: "id" }),
+  validate(getUserRecommendationsSchema),
+  userController.getUserRecommendations
+);
 
 /**
  * @swagger
  * /users:
  *   post:
  *     summary: Create a new user
+ *     x-permission: users:manage
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -68,6 +142,10 @@ router.get("/:id", validate(getUserByIdSchema), userController.getUserById);
  *                 type: string
  *               password:
  *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [admin, staff, customer]
+ *                 default: customer
  *               isActive:
  *                 type: boolean
  *     responses:
@@ -76,14 +154,25 @@ router.get("/:id", validate(getUserByIdSchema), userController.getUserById);
  *       400:
  *         description: Validation error
  */
-router.post("/", validate(createUserSchema), userController.createUser);
+router.post(
+  "/",
+  verifyToken,
+  authorize("users:manage"),
+  validate(createUserSchema),
+  userController.createUser
+);
 
 /**
  * @swagger
  * /users/{id}:
  *   put:
  *     summary: Update user
+ *     description: Users may edit their own profile but not their own `role` or `isActive`.
+ *     x-permission: users:manage
+ *     x-allow-self: true
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -105,34 +194,66 @@ router.post("/", validate(createUserSchema), userController.createUser);
  *                 type: string
  *               password:
  *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [admin, staff, customer]
+ *                 default: customer
  *               isActive:
  *                 type: boolean
  *     responses:
  *       200:
  *         description: User updated
+ *       403:
+ *         description: Missing permission, or an attempt to change your own role or active status
  *       404:
  *         description: User not found
  */
-router.put("/:id", validate(updateUserSchema), userController.updateUser);
+router.put(
+  "/:id",
+  verifyToken,
+  authorize("users:manage", { self: "id" }),
+  validate(updateUserSchema),
+  userController.updateUser
+);
 
 /**
  * @swagger
  * /users/{id}:
  *   delete:
  *     summary: Delete user
+ *     description: |
+ *       Users with orders, payments or returns can be deleted but are kept in the trash for bookkeeping.
+ *       `block` refuses while the user's cart has items, `cascade` deletes the cart.
+ *       The default comes from `DELETE_POLICY_USER` (block).
+ *     x-permission: users:manage
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: policy
+ *         schema:
+ *           type: string
+ *           enum: [block, cascade]
  *     responses:
  *       204:
  *         description: User deleted
  *       404:
  *         description: User not found
+ *       409:
+ *         description: User still has items in the cart (policy `block`), `details.dependants` lists count and IDs per kind
  */
-router.delete("/:id", validate(deleteUserSchema), userController.deleteUser);
+router.delete(
+  "/:id",
+  verifyToken,
+  authorize("users:manage"),
+  validate(deleteUserSchema),
+  userController.deleteUser
+);
 
 export default router;
@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+// Auth validation schemas
+export const refreshTokenSchema = z.object({
+  body: z.object({
+    refreshToken: z.string().trim().min(1, "refreshToken is required"),
+  }),
+});
+
+export const forgotPasswordSchema = z.object({
+  body: z.object({
+    email: z.string().email("Invalid email format").toLowerCase().trim(),
+  }),
+});
+
+export const resetPasswordSchema = z.object({
+  body: z.object({
+    token: z.string().trim().min(1, "token is required"),
+    password: z.string().min(6, "Password must be at least 6 characters"),
+  }),
+});
+
+export const verifyEmailSchema = z.object({
+  query: z.object({
+    token: z.string().trim().min(1, "token is required"),
+  }),
+});
+
+// Type exports
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { couponCodeSchema, shippingRegionSchema } from "./orderSchemas";
+
+// Cart validation schemas
+const variantIdSchema = z
+  .string()
+  .regex(/^[0-9a-fA-F]{24}$/, "Invalid variant ID format");
+
+export const addCartItemSchema = z.object({
+  body: z.object({
+    productId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+    variantId: variantIdSchema.optional(),
+    quantity: z
+      .number()
+      .int()
+      .positive("Quantity must be a positive integer")
+      .optional(),
+  }),
+});
+
+export const updateCartItemSchema = z.object({
+  params: z.object({
+    productId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+  }),
+  query: z.object({
+    variantId: variantIdSchema.optional(),
+  }),
+  body: z.object({
+    quantity: z.number().int().positive("Quantity must be a positive integer"),
+  }),
+});
+
+export const removeCartItemSchema = z.object({
+  params: z.object({
+    productId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+  }),
+  query: z.object({
+    variantId: variantIdSchema.optional(),
+  }),
+});
+
+export const checkoutCartSchema = z.object({
+  body: z.object({
+    couponCode: couponCodeSchema.optional(),
+    shippingRegion: shippingRegionSchema.optional(),
+  }),
+});
+
+// Type exports
+export type AddCartItemInput = z.infer<typeof addCartItemSchema>;
+export type UpdateCartItemInput = z.infer<typeof updateCartItemSchema>;
+export type RemoveCartItemInput = z.infer<typeof removeCartItemSchema>;
+export type CheckoutCartInput = z.infer<typeof checkoutCartSchema>;
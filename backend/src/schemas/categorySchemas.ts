@@ -1,9 +1,15 @@
 import { z } from "zod";
 
 // Category validation schemas
+const parentIdSchema = z
+  .string()
+  .regex(/^[0-9a-fA-F]{24}$/, "Invalid parent category ID format")
+  .nullable();
+
 export const createCategorySchema = z.object({
   body: z.object({
     name: z.string().min(1, "Category name is required").trim(),
+    parentId: parentIdSchema.optional(),
   }),
 });
 
@@ -13,6 +19,17 @@ export const updateCategorySchema = z.object({
   }),
   body: z.object({
     name: z.string().min(1, "Category name is required").trim().optional(),
+    // null moves the category (and everything below it) to the top level
+    parentId: parentIdSchema.optional(),
+  }),
+});
+
+export const getCategoryTreeSchema = z.object({
+  query: z.object({
+    rootId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
+      .optional(),
   }),
 });
 
@@ -26,6 +43,14 @@ export const deleteCategorySchema = z.object({
   params: z.object({
     id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format"),
   }),
+  query: z.object({
+    policy: z.enum(["block", "reassign", "cascade"]).optional(),
+    // Target for the reassign policy, defaults to the parent category
+    reassignTo: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
+      .optional(),
+  }),
 });
 
 // Type exports
@@ -33,3 +58,4 @@ export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
 export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
 export type GetCategoryByIdInput = z.infer<typeof getCategoryByIdSchema>;
 export type DeleteCategoryInput = z.infer<typeof deleteCategorySchema>;
+export type GetCategoryTreeInput = z.infer<typeof getCategoryTreeSchema>;
@@ -0,0 +1,114 @@
+import { z } from "zod";
+
+const couponFields = {
+  code: z
+    .string()
+    .trim()
+    .min(1, "Coupon code is required")
+    .max(50, "Coupon code is too long")
+    .regex(/^[A-Za-z0-9_-]+$/, "Coupon code may only contain letters, digits, - and _"),
+  description: z.string().trim().optional(),
+  type: z.enum(["percentage", "fixed", "free_shipping"]),
+  value: z.number().nonnegative("Value cannot be negative"),
+  categoryIds: z.array(
+    z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
+  ),
+  minOrderValue: z.number().nonnegative("Minimum order value cannot be negative"),
+  startsAt: z.coerce.date(),
+  expiresAt: z.coerce.date(),
+  usageLimit: z.number().int().positive("Usage limit must be a positive integer"),
+  perUserLimit: z
+    .number()
+    .int()
+    .positive("Per-user limit must be a positive integer"),
+  isActive: z.boolean(),
+};
+
+// Percentages above 100 would make the discount larger than the order
+const percentageInRange = (body: { type?: string; value?: number }) =>
+  body.type !== "percentage" || body.value === undefined || body.value <= 100;
+
+const validWindow = (body: { startsAt?: Date; expiresAt?: Date }) =>
+  !body.startsAt || !body.expiresAt || body.startsAt < body.expiresAt;
+
+// Coupon validation schemas
+export const createCouponSchema = z.object({
+  body: z
+    .object({
+      code: couponFields.code,
+      description: couponFields.description,
+      type: couponFields.type,
+      value: couponFields.value.optional(),
+      categoryIds: couponFields.categoryIds.optional(),
+      minOrderValue: couponFields.minOrderValue.optional(),
+      startsAt: couponFields.startsAt.optional(),
+      expiresAt: couponFields.expiresAt.optional(),
+      usageLimit: couponFields.usageLimit.optional(),
+      perUserLimit: couponFields.perUserLimit.optional(),
+      isActive: couponFields.isActive.optional(),
+    })
+    .refine((body) => body.type === "free_shipping" || body.value !== undefined, {
+      message: "Value is required for percentage and fixed coupons",
+      path: ["value"],
+    })
+    .refine(percentageInRange, {
+      message: "Percentage cannot exceed 100",
+      path: ["value"],
+    })
+    .refine(validWindow, {
+      message: "expiresAt must be after startsAt",
+      path: ["expiresAt"],
+    }),
+});
+
+export const updateCouponSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid coupon ID format"),
+  }),
+  body: z
+    .object({
+      code: couponFields.code.optional(),
+      description: couponFields.description,
+      type: couponFields.type.optional(),
+      value: couponFields.value.optional(),
+      categoryIds: couponFields.categoryIds.optional(),
+      minOrderValue: couponFields.minOrderValue.optional(),
+      startsAt: couponFields.startsAt.nullable().optional(),
+      expiresAt: couponFields.expiresAt.nullable().optional(),
+      usageLimit: couponFields.usageLimit.nullable().optional(),
+      perUserLimit: couponFields.perUserLimit.nullable().optional(),
+      isActive: couponFields.isActive.optional(),
+    })
+    .refine(percentageInRange, {
+      message: "Percentage cannot exceed 100",
+      path: ["value"],
+    })
+    .refine(
+      (body) => validWindow({
+        startsAt: body.startsAt ?? undefined,
+        expiresAt: body.expiresAt ?? undefined,
+      }),
+      {
+        message: "expiresAt must be after startsAt",
+        path: ["expiresAt"],
+      }
+    ),
+});
+
+export const getCouponByIdSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid coupon ID format"),
+  }),
+});
+
+export const deleteCouponSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid coupon ID format"),
+  }),
+});
+
+// Type exports
+export type CreateCouponInput = z.infer<typeof createCouponSchema>;
+export type UpdateCouponInput = z.infer<typeof updateCouponSchema>;
+export type GetCouponByIdInput = z.infer<typeof getCouponByIdSchema>;
+export type DeleteCouponInput = z.infer<typeof deleteCouponSchema>;
@@ -1,3 +1,6 @@
+// Pagination schemas
+export * from "./paginationSchemas";
+
 // User schemas
 export * from "./userSchemas";
 
@@ -9,3 +12,24 @@ export * from "./productSchemas";
 
 // Order schemas
 export * from "./orderSchemas";
+
+// Cart schemas
+export * from "./cartSchemas";
+
+// Coupon schemas
+export * from "./couponSchemas";
+
+// Payment schemas
+export * from "./paymentSchemas";
+
+// Return schemas
+export * from "./returnSchemas";
+
+// Review schemas
+export * from "./reviewSchemas";
+
+// Trash schemas
+export * from "./trashSchemas";
+
+// Auth schemas
+export * from "./authSchemas";
@@ -1,22 +1,45 @@
 import { z } from "zod";
+import { paginationQuerySchema } from "./paginationSchemas";
 
 // Order validation schemas
+// Line items, shared by order creation/update and cart checkout
+export const orderItemsSchema = z
+  .array(
+    z.object({
+      productId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+      // Required for products sold in variants
+      variantId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid variant ID format")
+        .optional(),
+      quantity: z
+        .number()
+        .int()
+        .positive("Quantity must be a positive integer"),
+    })
+  )
+  .min(1, "At least one product is required");
+
+export const couponCodeSchema = z
+  .string()
+  .trim()
+  .min(1, "Coupon code cannot be empty")
+  .max(50, "Coupon code is too long");
+
+// Region code used to look up the tax rate, e.g. "DE" or "US-CA"
+export const shippingRegionSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{2}(-[A-Za-z0-9]{1,3})?$/, "Invalid region code");
+
+// The customer is always the signed-in user, never taken from the body
 export const createOrderSchema = z.object({
   body: z.object({
-    userId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid user ID format"),
-    products: z
-      .array(
-        z.object({
-          productId: z
-            .string()
-            .regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
-          quantity: z
-            .number()
-            .int()
-            .positive("Quantity must be a positive integer"),
-        })
-      )
-      .min(1, "At least one product is required"),
+    products: orderItemsSchema,
+    couponCode: couponCodeSchema.optional(),
+    shippingRegion: shippingRegionSchema.optional(),
   }),
 });
 
@@ -29,23 +52,40 @@ export const updateOrderSchema = z.object({
       .string()
       .regex(/^[0-9a-fA-F]{24}$/, "Invalid user ID format")
       .optional(),
-    products: z
-      .array(
-        z.object({
-          productId: z
-            .string()
-            .regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
-          quantity: z
-            .number()
-            .int()
-            .positive("Quantity must be a positive integer"),
-        })
-      )
-      .min(1, "At least one product is required")
-      .optional(),
+    products: orderItemsSchema.optional(),
+    // null removes the coupon from the order
+    couponCode: couponCodeSchema.nullable().optional(),
+    shippingRegion: shippingRegionSchema.optional(),
   }),
 });
 
+export const getOrdersSchema = z.object({
+  query: z
+    .object({
+      userId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid user ID format")
+        .optional(),
+      // Placed within [from, to]
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      minTotal: z.coerce.number().min(0, "minTotal cannot be negative").optional(),
+      maxTotal: z.coerce.number().min(0, "maxTotal cannot be negative").optional(),
+    })
+    .merge(paginationQuerySchema)
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: "from must not be after to",
+      path: ["from"],
+    })
+    .refine(
+      (query) =>
+        query.minTotal === undefined ||
+        query.maxTotal === undefined ||
+        query.minTotal <= query.maxTotal,
+      { message: "minTotal cannot exceed maxTotal", path: ["minTotal"] }
+    ),
+});
+
 export const getOrderByIdSchema = z.object({
   params: z.object({
     id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid order ID format"),
@@ -58,11 +98,32 @@ export const deleteOrderSchema = z.object({
   }),
 });
 
+export const orderTransitionSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid order ID format"),
+  }),
+  body: z.object({
+    note: z.string().max(500, "Note is too long").trim().optional(),
+  }),
+});
+
+export const getOrderInvoiceSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid order ID format"),
+  }),
+  query: z.object({
+    format: z.enum(["pdf", "html"]).optional(),
+  }),
+});
+
 // Type exports
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+export type GetOrdersInput = z.infer<typeof getOrdersSchema>;
 export type UpdateOrderInput = z.infer<typeof updateOrderSchema>;
 export type GetOrderByIdInput = z.infer<typeof getOrderByIdSchema>;
 export type DeleteOrderInput = z.infer<typeof deleteOrderSchema>;
+export type OrderTransitionInput = z.infer<typeof orderTransitionSchema>;
+export type GetOrderInvoiceInput = z.infer<typeof getOrderInvoiceSchema>;
 
 export const getOrderTemplateSchema = z.object({
   params: z.object({
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+// Query parameters shared by every paginated list endpoint
+export const paginationQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, "limit must be at least 1")
+    .max(100, "limit cannot exceed 100")
+    .optional(),
+  // Opaque cursor taken from the next/prev links of a previous page
+  cursor: z.string().min(1).max(500).optional(),
+});
+
+export const listQuerySchema = z.object({
+  query: paginationQuerySchema,
+});
+
+// Type exports
+export type PaginationQueryInput = z.infer<typeof paginationQuerySchema>;
+export type ListQueryInput = z.infer<typeof listQuerySchema>;
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { paginationQuerySchema } from "./paginationSchemas";
+
+// Payment validation schemas
+export const createPaymentSchema = z.object({
+  body: z.object({
+    orderId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid order ID format"),
+    provider: z.string().trim().min(1).optional(),
+    // Provider-specific payment method, e.g. mock_card_declined for the mock provider
+    paymentMethod: z.string().trim().min(1).optional(),
+  }),
+});
+
+export const getPaymentsSchema = z.object({
+  query: z
+    .object({
+      orderId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid order ID format")
+        .optional(),
+    })
+    .merge(paginationQuerySchema),
+});
+
+export const getPaymentByIdSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid payment ID format"),
+  }),
+});
+
+export const capturePaymentSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid payment ID format"),
+  }),
+});
+
+export const refundPaymentSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid payment ID format"),
+  }),
+  body: z.object({
+    // Leave out to refund the remaining amount
+    amount: z.number().positive("Refund amount must be positive").optional(),
+    reason: z.string().trim().max(500, "Reason is too long").optional(),
+  }),
+});
+
+// Type exports
+export type CreatePaymentInput = z.infer<typeof createPaymentSchema>;
+export type GetPaymentsInput = z.infer<typeof getPaymentsSchema>;
+export type GetPaymentByIdInput = z.infer<typeof getPaymentByIdSchema>;
+export type CapturePaymentInput = z.infer<typeof capturePaymentSchema>;
+export type RefundPaymentInput = z.infer<typeof refundPaymentSchema>;
@@ -1,6 +1,47 @@
 import { z } from "zod";
+import { paginationQuerySchema } from "./paginationSchemas";
 
 // Product validation schemas
+export const productOptionSchema = z.object({
+  name: z.string().min(1, "Option name is required").trim(),
+  values: z
+    .array(z.string().min(1, "Option value is required").trim())
+    .min(1, "Option needs at least one value")
+    .refine((values) => new Set(values).size === values.length, {
+      message: "Option values must be unique",
+    }),
+});
+
+export const productVariantSchema = z.object({
+  // Existing variants keep their id so carts and orders stay linked
+  id: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid variant ID format")
+    .optional(),
+  sku: z.string().min(1, "SKU is required").trim(),
+  options: z.record(z.string().min(1, "Option value is required")),
+  price: z
+    .number()
+    .positive("Price must be a positive number")
+    .nullable()
+    .optional(),
+  stock: z
+    .number()
+    .int()
+    .nonnegative("Stock cannot be negative")
+    .optional(),
+});
+
+const productOptionsSchema = z
+  .array(productOptionSchema)
+  .refine(
+    (options) =>
+      new Set(options.map((option) => option.name)).size === options.length,
+    { message: "Option names must be unique" }
+  );
+
+const productVariantsSchema = z.array(productVariantSchema);
+
 export const createProductSchema = z.object({
   body: z.object({
     name: z.string().min(1, "Product name is required").trim(),
@@ -9,6 +50,14 @@ export const createProductSchema = z.object({
     categoryId: z
       .string()
       .regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format"),
+    stock: z
+      .number()
+      .int()
+      .nonnegative("Stock cannot be negative")
+      .optional(),
+    weight: z.number().nonnegative("Weight cannot be negative").optional(),
+    options: productOptionsSchema.optional(),
+    variants: productVariantsSchema.optional(),
   }),
 });
 
@@ -28,6 +77,14 @@ export const updateProductSchema = z.object({
       .string()
       .regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
       .optional(),
+    stock: z
+      .number()
+      .int()
+      .nonnegative("Stock cannot be negative")
+      .optional(),
+    weight: z.number().nonnegative("Weight cannot be negative").optional(),
+    options: productOptionsSchema.optional(),
+    variants: productVariantsSchema.optional(),
   }),
 });
 
@@ -37,24 +94,180 @@ export const getProductByIdSchema = z.object({
   }),
 });
 
+// Comma-separated query values, e.g. "M,L"
+const commaList = (item: z.ZodString) =>
+  z
+    .string()
+    .transform((value) => value.split(",").map((v) => v.trim()).filter(Boolean))
+    .pipe(z.array(item).min(1));
+
+export const productSearchQuerySchema = z
+  .object({
+    q: z.string().trim().min(1, "Search query cannot be empty").max(200).optional(),
+    // One or more category IDs, comma-separated
+    categoryId: commaList(
+      z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
+    ).optional(),
+    // Also match products in every category below the requested ones
+    includeDescendants: z
+      .enum(["true", "false"])
+      .transform((value) => value === "true")
+      .optional(),
+    minPrice: z.coerce.number().nonnegative("minPrice cannot be negative").optional(),
+    maxPrice: z.coerce.number().nonnegative("maxPrice cannot be negative").optional(),
+    // Variant option filters, e.g. ?options[size]=M,L&options[colour]=Red
+    // Names become part of a field path, so no $ or .
+    options: z
+      .record(
+        z.string().regex(/^[\w -]{1,50}$/, "Invalid option name"),
+        commaList(z.string().min(1))
+      )
+      .optional(),
+    sort: z
+      .enum(["relevance", "newest", "price_asc", "price_desc", "rating"])
+      .optional(),
+  })
+  .merge(paginationQuerySchema)
+  .refine(
+    (query) =>
+      query.minPrice === undefined ||
+      query.maxPrice === undefined ||
+      query.minPrice <= query.maxPrice,
+    { message: "minPrice cannot be greater than maxPrice", path: ["minPrice"] }
+  );
+
 export const getProductsSchema = z.object({
+  query: productSearchQuerySchema,
+});
+
+export const deleteProductSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+  }),
   query: z.object({
-    categoryId: z
+    policy: z.enum(["block", "cascade"]).optional(),
+  }),
+});
+
+const booleanFlag = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+export const importProductsSchema = z.object({
+  query: z.object({
+    // Defaults to the uploaded file's extension, or json for a JSON body
+    format: z.enum(["csv", "json"]).optional(),
+    // Validate and report without writing anything
+    dryRun: booleanFlag.optional(),
+    // Create categories that don't exist yet, defaults to IMPORT_CREATE_CATEGORIES
+    createCategories: booleanFlag.optional(),
+  }),
+});
+
+export const exportProductsSchema = z.object({
+  query: z.object({
+    format: z.enum(["csv", "json"]).optional(),
+    categoryId: commaList(
+      z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
+    ).optional(),
+  }),
+});
+
+export const getRelatedProductsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+  }),
+  query: z.object({
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, "limit must be at least 1")
+      .max(50, "limit cannot exceed 50")
+      .optional(),
+  }),
+});
+
+export const getPriceHistorySchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+  }),
+  query: paginationQuerySchema.extend({
+    variantId: z
       .string()
-      .regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID format")
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid variant ID format")
       .optional(),
+    // Window for the lowest price, defaults to 30 days
+    days: z.coerce.number().int().min(1).max(365).optional(),
   }),
 });
 
-export const deleteProductSchema = z.object({
+export const createSaleSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+  }),
+  body: z
+    .object({
+      // Omit to put every variant on sale
+      variantId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid variant ID format")
+        .nullable()
+        .optional(),
+      price: z.number().positive("Sale price must be a positive number"),
+      // Defaults to now
+      startsAt: z.coerce.date().optional(),
+      endsAt: z.coerce.date(),
+    })
+    .refine((sale) => sale.endsAt > (sale.startsAt ?? new Date()), {
+      message: "endsAt must be after startsAt and in the future",
+      path: ["endsAt"],
+    }),
+});
+
+export const endSaleSchema = z.object({
   params: z.object({
     id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+    saleId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid sale ID format"),
   }),
 });
 
+const productImageParams = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+  imageId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid image ID format"),
+});
+
+export const uploadProductImagesSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+  }),
+});
+
+export const reorderProductImagesSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+  }),
+  body: z.object({
+    imageIds: z
+      .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid image ID format"))
+      .min(1, "imageIds cannot be empty")
+      .refine((ids) => new Set(ids).size === ids.length, "imageIds must be unique"),
+  }),
+});
+
+export const productImageSchema = z.object({
+  params: productImageParams,
+});
+
 // Type exports
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
 export type GetProductByIdInput = z.infer<typeof getProductByIdSchema>;
 export type GetProductsInput = z.infer<typeof getProductsSchema>;
 export type DeleteProductInput = z.infer<typeof deleteProductSchema>;
+export type ProductOptionInput = z.infer<typeof productOptionSchema>;
+export type ProductVariantInput = z.infer<typeof productVariantSchema>;
+export type ImportProductsInput = z.infer<typeof importProductsSchema>;
+export type ExportProductsInput = z.infer<typeof exportProductsSchema>;
+export type GetRelatedProductsInput = z.infer<typeof getRelatedProductsSchema>;
+export type CreateSaleInput = z.infer<typeof createSaleSchema>;
+export type ReorderProductImagesInput = z.infer<typeof reorderProductImagesSchema>;
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { paginationQuerySchema } from "./paginationSchemas";
+
+// Return (RMA) validation schemas
+export const createReturnSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid order ID format"),
+  }),
+  body: z.object({
+    items: z
+      .array(
+        z.object({
+          productId: z
+            .string()
+            .regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+          variantId: z
+            .string()
+            .regex(/^[0-9a-fA-F]{24}$/, "Invalid variant ID format")
+            .optional(),
+          quantity: z
+            .number()
+            .int()
+            .positive("Quantity must be a positive integer"),
+        })
+      )
+      .min(1, "At least one item is required"),
+    reason: z
+      .string()
+      .trim()
+      .min(1, "A reason is required")
+      .max(1000, "Reason is too long"),
+  }),
+});
+
+export const getOrderReturnsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid order ID format"),
+  }),
+  query: paginationQuerySchema,
+});
+
+export const getReturnsSchema = z.object({
+  query: z
+    .object({
+      status: z
+        .enum(["requested", "approved", "rejected", "received", "refunded"])
+        .optional(),
+      orderId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid order ID format")
+        .optional(),
+    })
+    .merge(paginationQuerySchema),
+});
+
+export const getReturnByIdSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid return ID format"),
+  }),
+});
+
+export const reviewReturnSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid return ID format"),
+  }),
+  body: z.object({
+    note: z.string().trim().max(500, "Note is too long").optional(),
+  }),
+});
+
+export const receiveReturnSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid return ID format"),
+  }),
+  body: z.object({
+    condition: z.enum(["unopened", "like_new", "used", "damaged"]),
+    note: z.string().trim().max(500, "Note is too long").optional(),
+  }),
+});
+
+export const refundReturnSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid return ID format"),
+  }),
+  body: z.object({
+    // Leave out to refund the returned lines' share of the order
+    amount: z.number().positive("Refund amount must be positive").optional(),
+    note: z.string().trim().max(500, "Note is too long").optional(),
+  }),
+});
+
+// Type exports
+export type CreateReturnInput = z.infer<typeof createReturnSchema>;
+export type GetReturnsInput = z.infer<typeof getReturnsSchema>;
+export type GetReturnByIdInput = z.infer<typeof getReturnByIdSchema>;
+export type ReviewReturnInput = z.infer<typeof reviewReturnSchema>;
+export type ReceiveReturnInput = z.infer<typeof receiveReturnSchema>;
+export type RefundReturnInput = z.infer<typeof refundReturnSchema>;
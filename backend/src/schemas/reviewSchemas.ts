@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { paginationQuerySchema } from "./paginationSchemas";
+
+// Review validation schemas
+const productParams = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format"),
+});
+
+const reviewParams = productParams.extend({
+  reviewId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid review ID format"),
+});
+
+const rating = z
+  .number()
+  .int("Rating must be a whole number")
+  .min(1, "Rating must be between 1 and 5")
+  .max(5, "Rating must be between 1 and 5");
+
+export const getProductReviewsSchema = z.object({
+  params: productParams,
+  query: paginationQuerySchema,
+});
+
+export const createReviewSchema = z.object({
+  params: productParams,
+  body: z.object({
+    rating,
+    title: z.string().trim().max(120, "Title is too long").optional(),
+    body: z
+      .string()
+      .trim()
+      .min(1, "Review text is required")
+      .max(5000, "Review is too long"),
+  }),
+});
+
+export const updateReviewSchema = z.object({
+  params: reviewParams,
+  body: z
+    .object({
+      rating: rating.optional(),
+      title: z.string().trim().max(120, "Title is too long").optional(),
+      body: z
+        .string()
+        .trim()
+        .min(1, "Review text is required")
+        .max(5000, "Review is too long")
+        .optional(),
+    })
+    .refine((body) => Object.keys(body).length > 0, {
+      message: "Nothing to update",
+    }),
+});
+
+export const deleteReviewSchema = z.object({
+  params: reviewParams,
+});
+
+export const getReviewsSchema = z.object({
+  query: z
+    .object({
+      status: z.enum(["pending", "approved", "rejected"]).optional(),
+      productId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid product ID format")
+        .optional(),
+    })
+    .merge(paginationQuerySchema),
+});
+
+export const moderateReviewSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid review ID format"),
+  }),
+  body: z.object({
+    note: z.string().trim().max(500, "Note is too long").optional(),
+  }),
+});
+
+// Type exports
+export type GetProductReviewsInput = z.infer<typeof getProductReviewsSchema>;
+export type CreateReviewInput = z.infer<typeof createReviewSchema>;
+export type UpdateReviewInput = z.infer<typeof updateReviewSchema>;
+export type DeleteReviewInput = z.infer<typeof deleteReviewSchema>;
+export type GetReviewsInput = z.infer<typeof getReviewsSchema>;
+export type ModerateReviewInput = z.infer<typeof moderateReviewSchema>;
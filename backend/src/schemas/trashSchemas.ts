@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { paginationQuerySchema } from "./paginationSchemas";
+
+// Trash validation schemas
+const trashType = z.enum(["products", "categories", "users"]);
+
+export const getTrashSchema = z.object({
+  params: z.object({
+    type: trashType,
+  }),
+  query: paginationQuerySchema,
+});
+
+export const restoreFromTrashSchema = z.object({
+  params: z.object({
+    type: trashType,
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid ID format"),
+  }),
+});
+
+// Type exports
+export type GetTrashInput = z.infer<typeof getTrashSchema>;
+export type RestoreFromTrashInput = z.infer<typeof restoreFromTrashSchema>;
@@ -7,6 +7,7 @@ export const createUserSchema = z.object({
     lastName: z.string().min(1, "Last name is required").trim(),
     email: z.string().email("Invalid email format").toLowerCase().trim(),
     password: z.string().min(6, "Password must be at least 6 characters"),
+    role: z.enum(["admin", "staff", "customer"]).optional(),
     isActive: z.boolean().optional(),
   }),
 });
@@ -28,6 +29,7 @@ export const updateUserSchema = z.object({
       .string()
       .min(6, "Password must be at least 6 characters")
       .optional(),
+    role: z.enum(["admin", "staff", "customer"]).optional(),
     isActive: z.boolean().optional(),
   }),
 });
@@ -38,14 +40,32 @@ export const getUserByIdSchema = z.object({
   }),
 });
 
+export const getUserRecommendationsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid user ID format"),
+  }),
+  query: z.object({
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, "limit must be at least 1")
+      .max(50, "limit cannot exceed 50")
+      .optional(),
+  }),
+});
+
 export const deleteUserSchema = z.object({
   params: z.object({
     id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid user ID format"),
   }),
+  query: z.object({
+    policy: z.enum(["block", "cascade"]).optional(),
+  }),
 });
 
 // Type exports
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type GetUserByIdInput = z.infer<typeof getUserByIdSchema>;
+export type GetUserRecommendationsInput = z.infer<typeof getUserRecommendationsSchema>;
 export type DeleteUserInput = z.infer<typeof deleteUserSchema>;
@@ -1,6 +1,7 @@
 import swaggerJsdoc from "swagger-jsdoc";
 import swaggerUi from "swagger-ui-express";
 import { Express } from "express";
+import { PERMISSIONS, Permission } from "./utils/permissions";
 
 const options = {
   definition: {
@@ -25,7 +26,29 @@ const options = {
           description: "Enter JWT token from /auth/login"
         }
       },
+      parameters: {
+        PageLimit: {
+          in: "query",
+          name: "limit",
+          schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+          description: "Page size",
+        },
+        PageCursor: {
+          in: "query",
+          name: "cursor",
+          schema: { type: "string" },
+          description: "Opaque cursor, taken from the next/prev links of a previous page",
+        },
+      },
       schemas: {
+        Pagination: {
+          type: "object",
+          properties: {
+            limit: { type: "integer" },
+            next: { type: "string", nullable: true, description: "Link to the next page" },
+            prev: { type: "string", nullable: true, description: "Link to the previous page" },
+          },
+        },
         User: {
           type: "object",
           properties: {
@@ -34,9 +57,33 @@ const options = {
             lastName: { type: "string" },
             email: { type: "string" },
             password: { type: "string" },
+            role: { type: "string", enum: ["admin", "staff", "customer"], default: "customer" },
             isActive: { type: "boolean" },
+            emailVerified: { type: "boolean", description: "False until the mailed verification link is opened; orders need a verified address" },
+            emailVerifiedAt: { type: "string", format: "date-time", nullable: true },
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
+            deletedAt: { type: "string", format: "date-time", nullable: true, description: "Set while the document is in the trash" },
+          },
+        },
+        AuthTokens: {
+          type: "object",
+          properties: {
+            message: { type: "string" },
+            token: { type: "string", description: "Short-lived access token for the Authorization header (ACCESS_TOKEN_TTL)" },
+            refreshToken: { type: "string", description: "Single-use token for POST /auth/refresh" },
+            expiresIn: { type: "string", example: "15m", description: "Lifetime of the access token" },
+            refreshExpiresAt: { type: "string", format: "date-time", description: "When the session ends and the user has to log in again" },
+            user: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                firstName: { type: "string" },
+                lastName: { type: "string" },
+                email: { type: "string" },
+                emailVerified: { type: "boolean" },
+              },
+            },
           },
         },
         Category: {
@@ -44,8 +91,29 @@ const options = {
           properties: {
             id: { type: "string" },
             name: { type: "string" },
+            parentId: { type: "string", nullable: true },
+            ancestors: {
+              type: "array",
+              items: { type: "string" },
+              description: "IDs of every category above, root first",
+            },
+            path: { type: "string", example: "Clothing > Men > Shirts" },
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
+            deletedAt: { type: "string", format: "date-time", nullable: true, description: "Set while the document is in the trash" },
+          },
+        },
+        CategoryTreeNode: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            parentId: { type: "string", nullable: true },
+            path: { type: "string" },
+            children: {
+              type: "array",
+              items: { $ref: "#/components/schemas/CategoryTreeNode" },
+            },
           },
         },
         Product: {
@@ -56,10 +124,182 @@ const options = {
             description: { type: "string" },
             price: { type: "number" },
             categoryId: { type: "string" },
+            stock: { type: "integer" },
+            weight: { type: "number", description: "Shipping weight in kg" },
+            ratingAverage: {
+              type: "number",
+              description: "Average of the approved reviews, 0 without reviews",
+            },
+            ratingCount: { type: "integer" },
+            currentPrice: {
+              type: "number",
+              description: "Price right now, including running product-wide sales",
+            },
+            onSale: { type: "boolean" },
+            sales: {
+              type: "array",
+              description: "Scheduled and running sales",
+              items: { $ref: "#/components/schemas/ProductSale" },
+            },
+            images: {
+              type: "array",
+              description: "In display order",
+              items: { $ref: "#/components/schemas/ProductImage" },
+            },
+            options: {
+              type: "array",
+              items: { $ref: "#/components/schemas/ProductOption" },
+            },
+            variants: {
+              type: "array",
+              items: { $ref: "#/components/schemas/ProductVariant" },
+            },
+            createdAt: { type: "string", format: "date-time" },
+            updatedAt: { type: "string", format: "date-time" },
+            deletedAt: { type: "string", format: "date-time", nullable: true, description: "Set while the document is in the trash" },
+          },
+        },
+        ImportReport: {
+          type: "object",
+          properties: {
+            dryRun: { type: "boolean" },
+            summary: {
+              type: "object",
+              properties: {
+                total: { type: "integer" },
+                created: { type: "integer" },
+                updated: { type: "integer" },
+                failed: { type: "integer" },
+              },
+            },
+            createdCategories: {
+              type: "array",
+              description: "Breadcrumbs of categories created for the import",
+              items: { type: "string" },
+            },
+            rows: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  row: { type: "integer", description: "1-based, line 2 of a CSV is row 1" },
+                  status: { type: "string", enum: ["created", "updated", "failed"] },
+                  id: { type: "string" },
+                  name: { type: "string" },
+                  errors: { type: "array", items: { type: "string" } },
+                },
+              },
+            },
+          },
+        },
+        Recommendation: {
+          type: "object",
+          properties: {
+            reason: {
+              type: "string",
+              enum: ["bought_together", "same_category", "popular"],
+            },
+            score: {
+              type: "integer",
+              description: "Times bought together in paid orders, 0 for fallbacks",
+            },
+            product: { $ref: "#/components/schemas/Product" },
+          },
+        },
+        ProductSale: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            variantId: { type: "string", nullable: true, description: "Null when every variant is on sale" },
+            price: { type: "number" },
+            startsAt: { type: "string", format: "date-time" },
+            endsAt: { type: "string", format: "date-time" },
+          },
+        },
+        PriceChange: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            productId: { type: "string" },
+            variantId: { type: "string", nullable: true },
+            type: { type: "string", enum: ["regular", "sale"] },
+            price: {
+              type: "number",
+              nullable: true,
+              description: "New regular price (null when a variant falls back to the product price) or the sale price",
+            },
+            previousPrice: { type: "number", nullable: true },
+            saleId: { type: "string" },
+            startsAt: { type: "string", format: "date-time" },
+            endsAt: { type: "string", format: "date-time" },
+            changedBy: { type: "object", nullable: true, description: "User who made the change" },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
+        ProductImage: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            url: { type: "string", example: "/media/products/64f1c2.../3b9d....jpg" },
+            thumbnailUrl: { type: "string", description: "WebP, fits inside 320x320" },
+            contentType: { type: "string", enum: ["image/jpeg", "image/png", "image/webp"] },
+            size: { type: "integer", description: "Size of the original in bytes" },
+            width: { type: "integer" },
+            height: { type: "integer" },
+            primary: { type: "boolean" },
+          },
+        },
+        Review: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            productId: { type: "string" },
+            userId: { type: "string" },
+            orderId: { type: "string", description: "Delivered order that verifies the purchase" },
+            rating: { type: "integer", minimum: 1, maximum: 5 },
+            title: { type: "string" },
+            body: { type: "string" },
+            status: { type: "string", enum: ["pending", "approved", "rejected"] },
+            moderatedBy: { type: "string" },
+            moderatedAt: { type: "string", format: "date-time" },
+            moderationNote: { type: "string" },
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
           },
         },
+        ProductOption: {
+          type: "object",
+          properties: {
+            name: { type: "string", example: "size" },
+            values: {
+              type: "array",
+              items: { type: "string" },
+              example: ["S", "M", "L"],
+            },
+          },
+        },
+        ProductVariant: {
+          type: "object",
+          properties: {
+            id: { type: "string", description: "Send it back on update to keep the variant" },
+            sku: { type: "string", example: "TSHIRT-M-RED" },
+            options: {
+              type: "object",
+              additionalProperties: { type: "string" },
+              example: { size: "M", colour: "Red" },
+            },
+            price: {
+              type: "number",
+              nullable: true,
+              description: "Overrides the product price when set",
+            },
+            currentPrice: {
+              type: "number",
+              description: "Price right now, including running sales",
+            },
+            stock: { type: "integer" },
+          },
+        },
         Order: {
           type: "object",
           properties: {
@@ -71,15 +311,89 @@ const options = {
                 type: "object",
                 properties: {
                   productId: { type: "string" },
+                  variantId: { type: "string", nullable: true },
+                  sku: { type: "string", nullable: true },
+                  options: {
+                    type: "object",
+                    nullable: true,
+                    additionalProperties: { type: "string" },
+                  },
+                  name: { type: "string" },
+                  unitPrice: { type: "number" },
+                  weight: { type: "number" },
                   quantity: { type: "number" },
+                  subtotal: { type: "number" },
                 },
               },
             },
+            subtotal: { type: "number" },
+            discount: {
+              type: "object",
+              nullable: true,
+              properties: {
+                couponId: { type: "string" },
+                code: { type: "string" },
+                type: { type: "string" },
+                value: { type: "number" },
+                eligibleSubtotal: { type: "number" },
+                amount: { type: "number" },
+                freeShipping: { type: "boolean" },
+              },
+            },
+            discountTotal: { type: "number" },
+            shippingRegion: { type: "string" },
+            shippingMethod: { type: "string", enum: ["flat", "weight", "free_over_threshold"] },
+            shipping: { type: "number" },
+            taxRate: { type: "number" },
+            taxInclusive: { type: "boolean" },
+            tax: { type: "number" },
             total: { type: "number" },
+            status: {
+              type: "string",
+              enum: ["pending", "paid", "processing", "shipped", "delivered", "cancelled"],
+            },
+            paymentStatus: {
+              type: "string",
+              enum: ["unpaid", "paid", "failed", "partially_refunded", "refunded"],
+            },
+            refundedTotal: { type: "number" },
+            invoiceNumber: { type: "string" },
+            invoicedAt: { type: "string", format: "date-time" },
+            statusHistory: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  from: { type: "string", nullable: true },
+                  to: { type: "string" },
+                  changedBy: { type: "string" },
+                  note: { type: "string" },
+                  changedAt: { type: "string", format: "date-time" },
+                },
+              },
+            },
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
           },
         },
+        Coupon: {
+          type: "object",
+          properties: {
+            id: { type: "string", readOnly: true },
+            code: { type: "string" },
+            description: { type: "string" },
+            type: { type: "string", enum: ["percentage", "fixed", "free_shipping"] },
+            value: { type: "number", description: "Percent off or amount off" },
+            categoryIds: { type: "array", items: { type: "string" } },
+            minOrderValue: { type: "number" },
+            startsAt: { type: "string", format: "date-time" },
+            expiresAt: { type: "string", format: "date-time" },
+            usageLimit: { type: "integer", description: "Total redemptions allowed" },
+            perUserLimit: { type: "integer", description: "Redemptions allowed per customer" },
+            usedCount: { type: "integer", readOnly: true },
+            isActive: { type: "boolean" },
+          },
+        },
       },
     },
     security: [
@@ -91,7 +405,50 @@ const options = {
   apis: ["./src/routers/*.ts"],
 };
 
-const specs = swaggerJsdoc(options);
+/**
+ * Routes declare the permission they need with `x-permission` (and
+ * `x-allow-self` when users may also act on their own record). Spell out
+ * the roles holding it from PERMISSIONS, so the docs can't drift from what
+ * authorize() enforces.
+ */
+// The parts of an OpenAPI operation documentPermissions reads and fills in
+interface PermissionOperation {
+  "x-permission"?: Permission;
+  "x-allow-self"?: boolean;
+  "x-required-roles"?: readonly string[];
+  description?: string;
+  security?: Record<string, string[]>[];
+  responses?: Record<string, unknown>;
+}
+
+const documentPermissions = (spec: object): object => {
+  const paths = (spec as { paths?: Record<string, Record<string, unknown>> }).paths ?? {};
+  for (const pathItem of Object.values(paths)) {
+    for (const entry of Object.values(pathItem)) {
+      // Path items also hold shared parameters and the like
+      if (!entry || typeof entry !== "object" || Array.isArray(entry)) continue;
+      const operation = entry as PermissionOperation;
+      const permission = operation["x-permission"];
+      if (!permission) continue;
+
+      const roles = PERMISSIONS[permission];
+      const self = operation["x-allow-self"] ? ", or the user themselves" : "";
+      const note = `**Requires role:** ${roles.join(", ")}${self} (\`${permission}\`)`;
+      operation["x-required-roles"] = roles;
+      operation.description = operation.description
+        ? `${note}\n\n${operation.description}`
+        : note;
+      operation.security ??= [{ bearerAuth: [] }];
+      operation.responses ??= {};
+      operation.responses[403] ??= {
+        description: "Your role does not have this permission",
+      };
+    }
+  }
+  return spec;
+};
+
+const specs = documentPermissions(swaggerJsdoc(options));
 
 export const setupSwagger = (app: Express) => {
   app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(specs));
@@ -1,13 +1,43 @@
 import { Request } from "express";
+import { UserRole } from "../models/User";
 
 // Extended Request types
 export interface TypedRequest<T> extends Request {
   body: T;
 }
+
+// Payload signed into access tokens by /auth/register, /auth/login and /auth/refresh
+export interface AuthPayload {
+  userId: string;
+  email: string;
+  // Session the token belongs to, checked on every request so logouts apply at once
+  sid: string;
+  // Current role, loaded from the database by authorize()
+  role?: UserRole;
+}
+
+export interface AuthRequest extends Request {
+  user?: AuthPayload;
+}
+
+// Request carrying the unparsed body, needed to verify webhook signatures
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+// Links to the neighbouring pages of a list, null at either end
+export interface PaginationLinks {
+  limit: number;
+  next: string | null;
+  prev: string | null;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  pagination?: PaginationLinks;
+  meta?: Record<string, unknown>;
 }
 
 export type UserType = {
@@ -15,5 +45,6 @@ export type UserType = {
   lastName: string;
   email: string;
   password: string;
+  role?: UserRole;
   isActive?: boolean;
 };
@@ -0,0 +1,195 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { Cart, Product } from "../models";
+import { ICart } from "../models/Cart";
+import { roundMoney } from "./orderItems";
+import { findVariant } from "./variants";
+import { currentPrice } from "./salePrices";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Header anonymous clients use to identify their cart
+export const CART_TOKEN_HEADER = "X-Cart-Token";
+
+export interface CartOwner {
+  userId?: ObjectIdLike;
+  token?: string;
+}
+
+export interface CartLinePreview {
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  options: Record<string, string> | null;
+  name: string | null;
+  unitPrice: number | null;
+  quantity: number;
+  subtotal: number;
+  available: boolean;
+  inStock: boolean;
+}
+
+export interface CartPreview {
+  id: string;
+  token?: string;
+  items: CartLinePreview[];
+  itemCount: number;
+  total: number;
+}
+
+/**
+ * Generate a random token for an anonymous cart
+ */
+export const generateCartToken = (): string => {
+  return crypto.randomBytes(24).toString("hex");
+};
+
+/**
+ * Find the cart of a logged-in user, or the anonymous cart for a token
+ */
+export async function findCart(owner: CartOwner): Promise<ICart | null> {
+  if (owner.userId) {
+    return Cart.findOne({ userId: owner.userId });
+  }
+  if (owner.token) {
+    return Cart.findOne({ token: owner.token });
+  }
+  return null;
+}
+
+/**
+ * Find the owner's cart, creating an empty one if needed. Anonymous
+ * requests without a token get a fresh cart with a new token.
+ */
+export async function findOrCreateCart(owner: CartOwner): Promise<ICart> {
+  const existing = await findCart(owner);
+  if (existing) {
+    return existing;
+  }
+
+  if (owner.userId) {
+    // Upsert so two concurrent first requests share one cart
+    return Cart.findOneAndUpdate(
+      { userId: owner.userId },
+      { $setOnInsert: { userId: owner.userId, items: [] } },
+      { upsert: true, new: true }
+    ) as Promise<ICart>;
+  }
+
+  return Cart.create({ token: generateCartToken(), items: [] });
+}
+
+/**
+ * Query condition matching the cart line for a product and variant
+ */
+export const cartLineMatch = (
+  productId: ObjectIdLike,
+  variantId?: ObjectIdLike | null
+) => ({
+  $elemMatch: { productId, variantId: variantId ?? null },
+});
+
+/**
+ * Add a quantity of a product (variant) to a cart, merging with an existing line
+ */
+export async function addCartItem(
+  cartId: ObjectIdLike,
+  productId: ObjectIdLike,
+  quantity: number,
+  variantId?: ObjectIdLike | null
+): Promise<void> {
+  const line = cartLineMatch(productId, variantId);
+  const incremented = await Cart.updateOne(
+    { _id: cartId, items: line },
+    { $inc: { "items.$.quantity": quantity } }
+  );
+  if (incremented.matchedCount > 0) {
+    return;
+  }
+
+  const pushed = await Cart.updateOne(
+    { _id: cartId, items: { $not: line } },
+    { $push: { items: { productId, variantId: variantId ?? null, quantity } } }
+  );
+  if (pushed.matchedCount === 0) {
+    // Another request added the line in between, so increment it instead
+    await Cart.updateOne(
+      { _id: cartId, items: line },
+      { $inc: { "items.$.quantity": quantity } }
+    );
+  }
+}
+
+/**
+ * Price a cart with live product data. Lines whose product or variant no
+ * longer exists are kept but flagged unavailable and left out of the total.
+ */
+export async function priceCart(cart: ICart): Promise<CartPreview> {
+  const productIds = cart.items.map((item) => item.productId);
+  const products = await Product.find({ _id: { $in: productIds } });
+  const byId = new Map(products.map((p) => [String(p._id), p]));
+
+  const items: CartLinePreview[] = cart.items.map((item) => {
+    const product = byId.get(item.productId.toString());
+    const variant =
+      product && item.variantId ? findVariant(product, item.variantId) : undefined;
+    const line = {
+      productId: item.productId.toString(),
+      variantId: item.variantId ? item.variantId.toString() : null,
+      sku: variant?.sku ?? null,
+      options: variant?.options ?? null,
+      quantity: item.quantity,
+    };
+
+    // Products that gained or lost variants since the line was added can't be bought as is
+    const matchesProduct =
+      !!product && (item.variantId ? !!variant : product.variants.length === 0);
+    if (!product || !matchesProduct) {
+      return {
+        ...line,
+        name: product?.name ?? null,
+        unitPrice: null,
+        subtotal: 0,
+        available: false,
+        inStock: false,
+      };
+    }
+
+    const unitPrice = currentPrice(product, variant);
+    return {
+      ...line,
+      name: product.name,
+      unitPrice,
+      subtotal: roundMoney(unitPrice * item.quantity),
+      available: true,
+      inStock: (variant ? variant.stock : product.stock) >= item.quantity,
+    };
+  });
+
+  return {
+    id: String(cart._id),
+    ...(cart.token && { token: cart.token }),
+    items,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    total: roundMoney(items.reduce((sum, item) => sum + item.subtotal, 0)),
+  };
+}
+
+/**
+ * Move the items of an anonymous cart into a user's cart and delete the
+ * anonymous one. Quantities of products present in both are added up.
+ */
+export async function mergeAnonymousCart(
+  token: string,
+  userId: ObjectIdLike
+): Promise<void> {
+  const anonymous = await Cart.findOneAndDelete({ token });
+  if (!anonymous || anonymous.items.length === 0) {
+    return;
+  }
+
+  const cart = await findOrCreateCart({ userId });
+  for (const item of anonymous.items) {
+    await addCartItem(String(cart._id), item.productId, item.quantity, item.variantId);
+  }
+}
@@ -0,0 +1,368 @@
+import mongoose from "mongoose";
+import { z } from "zod";
+import { Category, Product } from "../models";
+import { ICategory } from "../models/Category";
+import { IProduct } from "../models/Product";
+import { createProductSchema } from "../schemas";
+import { BREADCRUMB_SEPARATOR, placeCategory } from "./categoryTree";
+import { parseCsvRecords } from "./csv";
+import { assertValidVariants, toVariantDocs } from "./variants";
+import { recordPriceChanges } from "./priceHistory";
+
+export const CATALOG_FORMATS = ["csv", "json"] as const;
+
+export type CatalogFormat = (typeof CATALOG_FORMATS)[number];
+
+// Columns of a CSV catalog, also the keys of a JSON catalog entry
+export const CATALOG_COLUMNS = [
+  "id",
+  "name",
+  "description",
+  "price",
+  "category",
+  "stock",
+  "weight",
+  "options",
+  "variants",
+] as const;
+
+// Largest catalog accepted in one import
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportRowResult {
+  // 1-based position in the catalog, the first product is row 1 (line 2 of a CSV)
+  row: number;
+  status: "created" | "updated" | "failed";
+  id?: string;
+  name?: string;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  summary: { total: number; created: number; updated: number; failed: number };
+  // Breadcrumbs of categories created for the import (or that would be, on a dry run)
+  createdCategories: string[];
+  rows: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  dryRun: boolean;
+  createCategories: boolean;
+  // User running the import, recorded in the price history
+  changedBy?: string;
+}
+
+type CatalogRecord = Record<string, unknown>;
+
+const productBodySchema = createProductSchema.shape.body;
+
+/**
+ * Whether imports may create missing categories when the request doesn't
+ * say, from IMPORT_CREATE_CATEGORIES
+ */
+export const createCategoriesByDefault = (): boolean =>
+  process.env.IMPORT_CREATE_CATEGORIES === "true";
+
+/**
+ * Read an uploaded catalog. JSON catalogs are an array of entries or
+ * `{ "products": [...] }`; CSV catalogs have a header row naming the columns.
+ */
+export const parseCatalog = (content: string, format: CatalogFormat): CatalogRecord[] => {
+  let records: unknown;
+  if (format === "csv") {
+    records = parseCsvRecords(content);
+  } else {
+    try {
+      const parsed = JSON.parse(content);
+      records = Array.isArray(parsed) ? parsed : parsed?.products;
+    } catch {
+      throw new Error("Invalid JSON catalog", { cause: { status: 400 } });
+    }
+  }
+
+  if (!Array.isArray(records)) {
+    throw new Error('A JSON catalog must be an array or { "products": [...] }', {
+      cause: { status: 400 },
+    });
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`A catalog can have at most ${MAX_IMPORT_ROWS} products`, {
+      cause: { status: 400 },
+    });
+  }
+  return records;
+};
+
+// CSV cells are strings; turn them into what the product schema expects
+const fromCsvCell = (column: string, value: unknown): unknown => {
+  if (typeof value !== "string") {
+    return value;
+  }
+  const text = value.trim();
+  if (text === "") {
+    return undefined;
+  }
+  if (["price", "stock", "weight"].includes(column)) {
+    return Number(text);
+  }
+  if (["options", "variants"].includes(column)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${column} must be valid JSON`);
+    }
+  }
+  return text;
+};
+
+const zodMessages = (error: z.ZodError): string[] =>
+  error.errors.map((issue) =>
+    issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+
+/**
+ * Resolves category references of one import. A reference is a category ID,
+ * a breadcrumb ("Clothing > Shirts") or a bare name that is unique across
+ * the tree. Missing categories are created when allowed; on a dry run they
+ * get a placeholder ID so later rows see them too.
+ */
+const categoryResolver = (options: ImportOptions) => {
+  const resolved = new Map<string, string>();
+  const created: string[] = [];
+
+  const findChild = async (parentId: string | null, name: string) => {
+    const cached = resolved.get(`${parentId}/${name}`);
+    if (cached) return cached;
+    const category = await Category.findOne({ parentId, name });
+    return category ? String(category._id) : null;
+  };
+
+  const createChild = async (parentId: string | null, name: string, path: string) => {
+    let id: string;
+    if (options.dryRun) {
+      id = new mongoose.Types.ObjectId().toString();
+    } else {
+      try {
+        const category = await Category.create({
+          name,
+          ...(await placeCategory(name, parentId)),
+        });
+        id = String(category._id);
+      } catch (error) {
+        // Someone else created it in the meantime
+        if ((error as { code?: number })?.code !== 11000) throw error;
+        id = (await findChild(parentId, name))!;
+      }
+    }
+    resolved.set(`${parentId}/${name}`, id);
+    created.push(path);
+    return id;
+  };
+
+  const resolve = async (reference: string): Promise<string> => {
+    if (/^[0-9a-fA-F]{24}$/.test(reference)) {
+      if (!(await Category.exists({ _id: reference }))) {
+        throw new Error(`Category ${reference} not found`);
+      }
+      return reference;
+    }
+
+    const names = reference
+      .split(BREADCRUMB_SEPARATOR.trim())
+      .map((name) => name.trim())
+      .filter(Boolean);
+    if (names.length === 0) {
+      throw new Error("Category is required");
+    }
+
+    // A bare name may point at a subcategory as long as it is unambiguous
+    if (names.length === 1) {
+      const matches: ICategory[] = await Category.find({ name: names[0] }).limit(2);
+      if (matches.length > 1) {
+        throw new Error(
+          `Category name "${names[0]}" is ambiguous, use its full path or ID`
+        );
+      }
+      if (matches.length === 1) {
+        return String(matches[0]._id);
+      }
+    }
+
+    let parentId: string | null = null;
+    for (const [depth, name] of names.entries()) {
+      const path = names.slice(0, depth + 1).join(BREADCRUMB_SEPARATOR);
+      const existing: string | null = await findChild(parentId, name);
+      if (existing) {
+        parentId = existing;
+      } else if (options.createCategories) {
+        parentId = await createChild(parentId, name, path);
+      } else {
+        throw new Error(`Category "${path}" not found`);
+      }
+    }
+    return parentId!;
+  };
+
+  return { resolve, created };
+};
+
+/**
+ * Create or update products from catalog entries. Entries with an `id`
+ * update that product, all others create a new one. Every entry, updates
+ * included, must be a complete product by the rules of POST /products.
+ * Optional fields an update leaves out keep their current value, options and
+ * variants included; an empty CSV cell counts as left out. Each entry is
+ * reported on its own, so one bad row doesn't stop the rest. A dry run validates everything and reports
+ * what would happen without writing anything.
+ */
+export async function importCatalog(
+  records: CatalogRecord[],
+  format: CatalogFormat,
+  options: ImportOptions
+): Promise<ImportReport> {
+  const categories = categoryResolver(options);
+  // SKUs claimed by earlier rows of this import
+  const skus = new Map<string, number>();
+  const rows: ImportRowResult[] = [];
+
+  for (const [index, record] of records.entries()) {
+    const row = index + 1;
+    const name = typeof record?.name === "string" ? record.name.trim() : undefined;
+
+    try {
+      if (!record || typeof record !== "object" || Array.isArray(record)) {
+        throw new Error("Entry must be an object");
+      }
+
+      const input: Record<string, unknown> = {};
+      for (const column of CATALOG_COLUMNS) {
+        input[column] = format === "csv" ? fromCsvCell(column, record[column]) : record[column];
+      }
+      const id = input.id ? String(input.id) : undefined;
+      if (id !== undefined && !/^[0-9a-fA-F]{24}$/.test(id)) {
+        throw new Error("id: Invalid product ID format");
+      }
+
+      const categoryRef = input.category ?? record.categoryId;
+      if (typeof categoryRef !== "string") {
+        throw new Error("category: Category is required");
+      }
+
+      // Check the fields first so a bad row doesn't create its category
+      const { category, id: _id, ...fields } = input;
+      const placeholderId = new mongoose.Types.ObjectId().toString();
+      const precheck = productBodySchema.safeParse({ ...fields, categoryId: placeholderId });
+      if (!precheck.success) {
+        rows.push({ row, status: "failed", id, name, errors: zodMessages(precheck.error) });
+        continue;
+      }
+
+      const existing = id ? await Product.findById(id) : null;
+      if (id && !existing) {
+        throw new Error(`Product ${id} not found`);
+      }
+
+      const body = { ...precheck.data, categoryId: await categories.resolve(categoryRef) };
+      const { options: productOptions, variants, ...productFields } = body;
+
+      // Updates keep the options and variants of entries that leave them out
+      const nextOptions = productOptions ?? existing?.options ?? [];
+      const nextVariants = variants
+        ? toVariantDocs(variants, existing ?? undefined)
+        : existing?.variants ?? [];
+      assertValidVariants(nextOptions, nextVariants);
+
+      const rowSkus = nextVariants.map((variant) => variant.sku.toUpperCase());
+      const repeated = rowSkus.filter((sku) => skus.has(sku));
+      if (repeated.length > 0) {
+        throw new Error(
+          `SKU ${repeated.join(", ")} already used in row ${skus.get(repeated[0])}`
+        );
+      }
+      const taken = await Product.find({
+        "variants.sku": { $in: rowSkus },
+        ...(existing && { _id: { $ne: existing._id } }),
+      }).select("_id");
+      if (taken.length > 0) {
+        throw new Error(
+          `SKU already used by product ${taken.map((p) => String(p._id)).join(", ")}`
+        );
+      }
+      rowSkus.forEach((sku) => skus.set(sku, row));
+
+      const data = { ...productFields, options: nextOptions, variants: nextVariants };
+      let product: IProduct | null = existing;
+      if (!options.dryRun) {
+        product = existing
+          ? await Product.findByIdAndUpdate(existing._id, data, {
+              new: true,
+              runValidators: true,
+            })
+          : await Product.create(data);
+        if (product) {
+          await recordPriceChanges(existing, product, options.changedBy);
+        }
+      }
+
+      rows.push({
+        row,
+        status: existing ? "updated" : "created",
+        id: product ? String(product._id) : undefined,
+        name: body.name,
+      });
+    } catch (error) {
+      const errors =
+        error instanceof mongoose.Error.ValidationError
+          ? Object.values(error.errors).map((err) => err.message)
+          : [
+              (error as { code?: number })?.code === 11000
+                ? "Duplicate SKU"
+                : error instanceof Error
+                  ? error.message
+                  : String(error),
+            ];
+      rows.push({ row, status: "failed", name, errors });
+    }
+  }
+
+  const count = (status: ImportRowResult["status"]) =>
+    rows.filter((result) => result.status === status).length;
+
+  return {
+    dryRun: options.dryRun,
+    summary: {
+      total: rows.length,
+      created: count("created"),
+      updated: count("updated"),
+      failed: count("failed"),
+    },
+    createdCategories: categories.created,
+    rows,
+  };
+}
+
+/**
+ * Catalog entry for a product, in the shape importCatalog accepts. The
+ * category is written as its breadcrumb so the file reads well in a spreadsheet.
+ */
+export const toCatalogEntry = (product: IProduct) => {
+  const category = product.categoryId as unknown as ICategory | null;
+  return {
+    id: String(product._id),
+    name: product.name,
+    description: product.description,
+    price: product.price,
+    category: category ? category.path || category.name : "",
+    stock: product.stock,
+    weight: product.weight,
+    options: product.options.map(({ name, values }) => ({ name, values })),
+    variants: product.variants.map((variant) => ({
+      id: String(variant._id),
+      sku: variant.sku,
+      options: variant.options,
+      price: variant.price ?? null,
+      stock: variant.stock,
+    })),
+  };
+};
@@ -0,0 +1,139 @@
+import mongoose from "mongoose";
+import { Category } from "../models";
+import { ICategory } from "../models/Category";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export const BREADCRUMB_SEPARATOR = " > ";
+
+export interface CategoryPlacement {
+  parentId: mongoose.Types.ObjectId | null;
+  ancestors: mongoose.Types.ObjectId[];
+  path: string;
+}
+
+export interface CategoryTreeNode {
+  id: string;
+  name: string;
+  parentId: string | null;
+  path: string;
+  children: CategoryTreeNode[];
+}
+
+// Categories created before the hierarchy existed have no path yet
+const pathOf = (category: ICategory): string => category.path || category.name;
+
+/**
+ * Work out where a category named `name` sits under `parentId`. When an
+ * existing category is moved, its new parent may not be the category itself
+ * or one of its descendants, which would turn the tree into a cycle.
+ */
+export async function placeCategory(
+  name: string,
+  parentId: ObjectIdLike | null,
+  categoryId?: ObjectIdLike
+): Promise<CategoryPlacement> {
+  if (!parentId) {
+    return { parentId: null, ancestors: [], path: name };
+  }
+
+  const parent = await Category.findById(parentId);
+  if (!parent) {
+    throw new Error("Parent category not found", { cause: { status: 400 } });
+  }
+
+  if (
+    categoryId &&
+    [String(parent._id), ...parent.ancestors.map(String)].includes(String(categoryId))
+  ) {
+    throw new Error(
+      "A category cannot be moved under itself or one of its descendants",
+      { cause: { status: 400 } }
+    );
+  }
+
+  return {
+    parentId: parent._id as mongoose.Types.ObjectId,
+    ancestors: [...parent.ancestors, parent._id as mongoose.Types.ObjectId],
+    path: `${pathOf(parent)}${BREADCRUMB_SEPARATOR}${name}`,
+  };
+}
+
+/**
+ * Rewrite the ancestors and breadcrumb of every category below `category`
+ * after it was renamed or moved. Descendants are processed top-down so each
+ * one is rebuilt from its already updated parent.
+ */
+export async function refreshDescendants(category: ICategory): Promise<void> {
+  const descendants = await Category.find({ ancestors: category._id });
+  descendants.sort((a, b) => a.ancestors.length - b.ancestors.length);
+
+  const placed = new Map<string, Omit<CategoryPlacement, "parentId">>([
+    [String(category._id), { ancestors: category.ancestors, path: pathOf(category) }],
+  ]);
+
+  const updates = [];
+  for (const descendant of descendants) {
+    const parent = placed.get(String(descendant.parentId));
+    if (!parent) continue;
+
+    const placement = {
+      ancestors: [...parent.ancestors, descendant.parentId!],
+      path: `${parent.path}${BREADCRUMB_SEPARATOR}${descendant.name}`,
+    };
+    placed.set(String(descendant._id), placement);
+    updates.push({
+      updateOne: { filter: { _id: descendant._id }, update: { $set: placement } },
+    });
+  }
+
+  if (updates.length > 0) {
+    await Category.bulkWrite(updates);
+  }
+}
+
+/**
+ * Expand category IDs to include every category below them
+ */
+export async function withDescendants(categoryIds: ObjectIdLike[]): Promise<string[]> {
+  const descendants = await Category.find({ ancestors: { $in: categoryIds } }).select("_id");
+  return [
+    ...new Set([
+      ...categoryIds.map(String),
+      ...descendants.map((category) => String(category._id)),
+    ]),
+  ];
+}
+
+/**
+ * Nest categories into a tree sorted by name, either the whole catalogue
+ * or the subtree below `rootId`
+ */
+export async function buildCategoryTree(rootId?: ObjectIdLike): Promise<CategoryTreeNode[]> {
+  const filter = rootId ? { $or: [{ _id: rootId }, { ancestors: rootId }] } : {};
+  const categories = await Category.find(filter).sort({ name: 1 });
+
+  const nodes = new Map<string, CategoryTreeNode>(
+    categories.map((category) => [
+      String(category._id),
+      {
+        id: String(category._id),
+        name: category.name,
+        parentId: category.parentId ? String(category.parentId) : null,
+        path: pathOf(category),
+        children: [],
+      },
+    ])
+  );
+
+  const roots: CategoryTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
@@ -0,0 +1,71 @@
+import mongoose from "mongoose";
+import { Order, User } from "../models";
+import { IOrder } from "../models/Order";
+import { redeemCoupon, releaseCoupon } from "./coupons";
+import { releaseStock, reserveStock } from "./inventory";
+import { buildOrderItems, OrderItemInput } from "./orderItems";
+import { priceOrder } from "./pricing";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+interface PlaceOrderInput {
+  userId: ObjectIdLike;
+  products: OrderItemInput[];
+  couponCode?: string;
+  shippingRegion?: string;
+}
+
+/**
+ * Create a pending order: check the user and that their email is verified, snapshot line items, price them
+ * (discount, shipping, tax), reserve stock and coupon usage, and save. Shared by `POST /orders` and
+ * cart checkout so both apply the same rules.
+ */
+export async function placeOrder(input: PlaceOrderInput): Promise<IOrder> {
+  // Check if user exists
+  const user = await User.findById(input.userId);
+  if (!user) {
+    throw new Error("User not found", { cause: { status: 400 } });
+  }
+  if (!user.emailVerified) {
+    throw new Error("Verify your email address before placing orders", {
+      cause: { status: 403 },
+    });
+  }
+
+  // Check if all products exist, snapshot their name and price, and calculate total
+  const { items } = await buildOrderItems(input.products);
+  const pricing = await priceOrder(items, {
+    userId: String(user._id),
+    couponCode: input.couponCode,
+    region: input.shippingRegion,
+  });
+
+  const order = new Order({
+    userId: user._id,
+    products: items,
+    ...pricing,
+    status: "pending",
+    statusHistory: [{ from: null, to: "pending", changedAt: new Date() }],
+  });
+
+  // Take stock and the coupon use before saving; give both back if anything fails
+  await reserveStock(items);
+  try {
+    if (pricing.discount) {
+      await redeemCoupon(pricing.discount.couponId, user._id as mongoose.Types.ObjectId);
+    }
+  } catch (error) {
+    await releaseStock(items);
+    throw error;
+  }
+
+  try {
+    return await order.save();
+  } catch (error) {
+    await releaseStock(items);
+    if (pricing.discount) {
+      await releaseCoupon(pricing.discount.couponId, user._id as mongoose.Types.ObjectId);
+    }
+    throw error;
+  }
+}
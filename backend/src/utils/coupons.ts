@@ -0,0 +1,236 @@
+import mongoose from "mongoose";
+import { Coupon, CouponRedemption, Order, Product } from "../models";
+import { CouponType } from "../models/Coupon";
+import { IOrderItem } from "../models/Order";
+import { roundMoney } from "./orderItems";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export interface CouponDiscount {
+  couponId: mongoose.Types.ObjectId;
+  code: string;
+  type: CouponType;
+  value: number;
+  eligibleSubtotal: number;
+  amount: number;
+  freeShipping: boolean;
+}
+
+interface CouponContext {
+  userId: ObjectIdLike;
+  items: IOrderItem[];
+  // Order being edited, left out of per-user usage counts
+  orderId?: ObjectIdLike;
+  // The coupon is already on the order, so availability checks were done when it was applied
+  alreadyApplied?: boolean;
+}
+
+const couponError = (message: string): Error => {
+  return new Error(message, { cause: { status: 400 } });
+};
+
+const isDuplicateKeyError = (error: unknown): boolean => {
+  return (error as { code?: number })?.code === 11000;
+};
+
+/**
+ * Subtotal of the lines a coupon applies to. Category-restricted coupons
+ * only count products in one of their categories.
+ */
+const eligibleSubtotal = async (
+  categoryIds: mongoose.Types.ObjectId[],
+  items: IOrderItem[]
+): Promise<number> => {
+  if (categoryIds.length === 0) {
+    return roundMoney(items.reduce((sum, item) => sum + item.subtotal, 0));
+  }
+
+  const allowed = new Set(categoryIds.map((id) => id.toString()));
+  const products = await Product.find({
+    _id: { $in: items.map((item) => item.productId) },
+  }).select("categoryId");
+  const eligibleProducts = new Set(
+    products
+      .filter((p) => allowed.has(p.categoryId.toString()))
+      .map((p) => String(p._id))
+  );
+
+  return roundMoney(
+    items
+      .filter((item) => eligibleProducts.has(item.productId.toString()))
+      .reduce((sum, item) => sum + item.subtotal, 0)
+  );
+};
+
+/**
+ * Check a coupon code against an order and work out the discount.
+ * Throws a 400 error explaining why a code cannot be used.
+ */
+export async function evaluateCoupon(
+  code: string,
+  context: CouponContext
+): Promise<CouponDiscount> {
+  const coupon = await Coupon.findOne({ code: code.trim().toUpperCase() });
+  if (!coupon) {
+    throw couponError(`Coupon ${code} does not exist`);
+  }
+
+  if (!context.alreadyApplied) {
+    const now = new Date();
+    if (!coupon.isActive) {
+      throw couponError(`Coupon ${coupon.code} is not active`);
+    }
+    if (coupon.startsAt && coupon.startsAt > now) {
+      throw couponError(`Coupon ${coupon.code} is not valid yet`);
+    }
+    if (coupon.expiresAt && coupon.expiresAt <= now) {
+      throw couponError(`Coupon ${coupon.code} has expired`);
+    }
+    if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+      throw couponError(`Coupon ${coupon.code} has been fully redeemed`);
+    }
+    if (coupon.perUserLimit) {
+      const uses = await Order.countDocuments({
+        userId: context.userId,
+        "discount.couponId": coupon._id,
+        status: { $ne: "cancelled" },
+        ...(context.orderId && { _id: { $ne: context.orderId } }),
+      });
+      if (uses >= coupon.perUserLimit) {
+        throw couponError(
+          `Coupon ${coupon.code} can only be used ${coupon.perUserLimit} time(s) per customer`
+        );
+      }
+    }
+  }
+
+  const subtotal = roundMoney(
+    context.items.reduce((sum, item) => sum + item.subtotal, 0)
+  );
+  if (subtotal < coupon.minOrderValue) {
+    throw couponError(
+      `Coupon ${coupon.code} requires a minimum order value of ${coupon.minOrderValue}`
+    );
+  }
+
+  const eligible = await eligibleSubtotal(coupon.categoryIds, context.items);
+  if (eligible === 0) {
+    throw couponError(`Coupon ${coupon.code} does not apply to any product in this order`);
+  }
+
+  let amount = 0;
+  if (coupon.type === "percentage") {
+    amount = roundMoney((eligible * Math.min(coupon.value, 100)) / 100);
+  } else if (coupon.type === "fixed") {
+    amount = roundMoney(Math.min(coupon.value, eligible));
+  }
+
+  return {
+    couponId: coupon._id as mongoose.Types.ObjectId,
+    code: coupon.code,
+    type: coupon.type,
+    value: coupon.value,
+    eligibleSubtotal: eligible,
+    amount,
+    freeShipping: coupon.type === "free_shipping",
+  };
+}
+
+/**
+ * Count one use of a coupon by a user against its per-customer limit. The
+ * counter is only incremented while it is below the limit; once it is
+ * reached the upsert collides with the unique index instead, so concurrent
+ * orders of the same user cannot all pass.
+ */
+export async function redeemCouponForUser(
+  couponId: ObjectIdLike,
+  userId: ObjectIdLike
+): Promise<void> {
+  const coupon = await Coupon.findById(couponId).select("code perUserLimit");
+  if (!coupon?.perUserLimit) {
+    return;
+  }
+
+  // A collision can also mean two first uses raced to create the counter, so try once more
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    try {
+      await CouponRedemption.updateOne(
+        { couponId, userId, count: { $lt: coupon.perUserLimit } },
+        { $inc: { count: 1 } },
+        { upsert: true }
+      );
+      return;
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+    }
+  }
+  throw new Error(
+    `Coupon ${coupon.code} can only be used ${coupon.perUserLimit} time(s) per customer`,
+    { cause: { status: 409 } }
+  );
+}
+
+/**
+ * Give back one use of a coupon by a user
+ */
+export async function releaseCouponForUser(
+  couponId: ObjectIdLike,
+  userId: ObjectIdLike
+): Promise<void> {
+  await CouponRedemption.updateOne(
+    { couponId, userId, count: { $gt: 0 } },
+    { $inc: { count: -1 } }
+  );
+}
+
+/**
+ * Count one use of a coupon. The increment is conditional on the global
+ * usage limit, so the last redemption cannot be claimed twice, and the
+ * user's own use is claimed the same way.
+ */
+export async function redeemCoupon(
+  couponId: ObjectIdLike,
+  userId: ObjectIdLike
+): Promise<void> {
+  const result = await Coupon.updateOne(
+    {
+      _id: couponId,
+      $or: [
+        { usageLimit: { $exists: false } },
+        { usageLimit: null },
+        { $expr: { $lt: ["$usedCount", "$usageLimit"] } },
+      ],
+    },
+    { $inc: { usedCount: 1 } }
+  );
+
+  if (result.modifiedCount === 0) {
+    throw new Error("Coupon has been fully redeemed", { cause: { status: 409 } });
+  }
+
+  try {
+    await redeemCouponForUser(couponId, userId);
+  } catch (error) {
+    await Coupon.updateOne(
+      { _id: couponId, usedCount: { $gt: 0 } },
+      { $inc: { usedCount: -1 } }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Give back one use of a coupon, e.g. when its order is cancelled
+ */
+export async function releaseCoupon(
+  couponId: ObjectIdLike,
+  userId: ObjectIdLike
+): Promise<void> {
+  await Coupon.updateOne(
+    { _id: couponId, usedCount: { $gt: 0 } },
+    { $inc: { usedCount: -1 } }
+  );
+  await releaseCouponForUser(couponId, userId);
+}
@@ -0,0 +1,97 @@
+/**
+ * Minimal RFC 4180 CSV support for catalog import and export: comma
+ * separated, fields optionally quoted with "" escaping, CRLF or LF line ends.
+ */
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("Invalid CSV: unterminated quoted field", {
+      cause: { status: 400 },
+    });
+  }
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+// Text a spreadsheet would run as a formula, and the quote that defuses it on export
+const FORMULA_START = /^[=+\-@\t\r]/;
+const DEFUSED_FORMULA = /^'(?=[=+\-@\t\r])/;
+
+/**
+ * Parse CSV with a header row into one record per line, keyed by the
+ * trimmed header names. Cells defused on export get their text back.
+ */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  const columns = header.map((name) => name.trim());
+  return rows.map((row) =>
+    Object.fromEntries(
+      columns.map((column, i) => [column, (row[i] ?? "").replace(DEFUSED_FORMULA, "")])
+    )
+  );
+};
+
+// Text that looks like a formula is prefixed with ' so spreadsheets show it
+// instead of running it; numbers such as negative prices are left alone
+const escapeField = (value: unknown): string => {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Format one CSV line, including the line break
+ */
+export const toCsvLine = (values: unknown[]): string => {
+  return `${values.map(escapeField).join(",")}\r\n`;
+};
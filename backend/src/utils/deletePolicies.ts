@@ -0,0 +1,256 @@
+import mongoose, { FilterQuery, Model } from "mongoose";
+import { Cart, Category, Coupon, Product, User } from "../models";
+import { ICategory } from "../models/Category";
+import { IProduct } from "../models/Product";
+import { IUser } from "../models/User";
+import { placeCategory, refreshDescendants } from "./categoryTree";
+import { revokeUserSessions } from "./sessions";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export const DELETE_POLICIES = ["block", "reassign", "cascade"] as const;
+
+export type DeletePolicy = (typeof DELETE_POLICIES)[number];
+
+export type DeletableEntity = "category" | "product" | "user";
+
+/**
+ * Policies each entity supports. Orders, payments and returns are financial
+ * records, so they are never cascaded or reassigned and always block.
+ */
+export const ALLOWED_DELETE_POLICIES: Record<DeletableEntity, DeletePolicy[]> = {
+  category: ["block", "reassign", "cascade"],
+  product: ["block", "cascade"],
+  user: ["block", "cascade"],
+};
+
+// How many dependant IDs are listed per kind in a 409 response
+const LISTED_DEPENDANTS = 20;
+
+export interface DependantSummary {
+  count: number;
+  ids: string[];
+}
+
+export type Dependants = Record<string, DependantSummary>;
+
+/**
+ * Policy for a delete request: the one asked for, otherwise the default from
+ * DELETE_POLICY_CATEGORY / _PRODUCT / _USER, otherwise "block"
+ */
+export const resolveDeletePolicy = (
+  entity: DeletableEntity,
+  requested?: DeletePolicy
+): DeletePolicy => {
+  const allowed = ALLOWED_DELETE_POLICIES[entity];
+  const configured = process.env[`DELETE_POLICY_${entity.toUpperCase()}`];
+  const policy =
+    requested ??
+    (allowed.includes(configured as DeletePolicy)
+      ? (configured as DeletePolicy)
+      : "block");
+
+  if (!allowed.includes(policy)) {
+    throw new Error(
+      `Delete policy "${policy}" is not supported for ${entity}, use one of: ${allowed.join(", ")}`,
+      { cause: { status: 400 } }
+    );
+  }
+  return policy;
+};
+
+const summarize = async <T>(
+  model: Model<T>,
+  filter: FilterQuery<T>
+): Promise<DependantSummary> => {
+  const [count, docs] = await Promise.all([
+    model.countDocuments(filter),
+    model.find(filter).select("_id").limit(LISTED_DEPENDANTS),
+  ]);
+  return { count, ids: docs.map((doc) => String(doc._id)) };
+};
+
+// Drop empty kinds so the 409 only lists what is actually in the way
+const present = (dependants: Dependants): Dependants => {
+  return Object.fromEntries(
+    Object.entries(dependants).filter(([, summary]) => summary.count > 0)
+  );
+};
+
+const blockedError = (message: string, dependants: Dependants): Error => {
+  return new Error(message, {
+    cause: { status: 409, details: { dependants } },
+  });
+};
+
+/**
+ * Move a category to the trash according to `policy`:
+ * - block: refuse while products, subcategories or coupons point at it
+ * - reassign: move its products, subcategories and coupon scopes to
+ *   `reassignTo` (defaults to the parent category), then delete it
+ * - cascade: delete it with its whole subtree, as long as no product or
+ *   coupon uses any category in that subtree
+ */
+export async function deleteCategoryWithPolicy(
+  categoryId: ObjectIdLike,
+  policy: DeletePolicy,
+  reassignTo?: ObjectIdLike
+): Promise<ICategory | null> {
+  const category = await Category.findById(categoryId);
+  if (!category) {
+    return null;
+  }
+
+  if (policy === "cascade") {
+    const subtree = [
+      category._id,
+      ...(await Category.find({ ancestors: category._id }).select("_id")).map(
+        (c) => c._id
+      ),
+    ];
+    const dependants = present({
+      products: await summarize(Product, { categoryId: { $in: subtree } }),
+      // Dropping a coupon's category would widen the coupon to the whole shop
+      coupons: await summarize(Coupon, { categoryIds: { $in: subtree } }),
+    });
+    if (Object.keys(dependants).length > 0) {
+      throw blockedError(
+        "Category subtree is still in use and cannot be deleted",
+        dependants
+      );
+    }
+    // One timestamp for the whole subtree so it can be restored together
+    await Category.updateMany(
+      { _id: { $in: subtree } },
+      { $set: { deletedAt: new Date() } }
+    );
+    return category;
+  }
+
+  const dependants = present({
+    products: await summarize(Product, { categoryId: category._id }),
+    subcategories: await summarize(Category, { parentId: category._id }),
+    coupons: await summarize(Coupon, { categoryIds: category._id }),
+  });
+
+  if (policy === "block" && Object.keys(dependants).length > 0) {
+    throw blockedError(
+      "Category is still in use and cannot be deleted",
+      dependants
+    );
+  }
+
+  if (policy === "reassign" && Object.keys(dependants).length > 0) {
+    const targetId = reassignTo ?? category.parentId;
+    if (!targetId) {
+      throw new Error(
+        "reassignTo is required when deleting a top-level category",
+        { cause: { status: 400 } }
+      );
+    }
+    const target = await Category.findById(targetId);
+    if (
+      !target ||
+      String(target._id) === String(category._id) ||
+      target.ancestors.some((id) => String(id) === String(category._id))
+    ) {
+      throw new Error(
+        "reassignTo must be an existing category outside the deleted one",
+        { cause: { status: 400 } }
+      );
+    }
+
+    await Product.updateMany(
+      { categoryId: category._id },
+      { $set: { categoryId: target._id } }
+    );
+    await Coupon.updateMany(
+      { categoryIds: category._id },
+      { $addToSet: { categoryIds: target._id } }
+    );
+    await Coupon.updateMany(
+      { categoryIds: category._id },
+      { $pull: { categoryIds: category._id } }
+    );
+
+    const children = await Category.find({ parentId: category._id });
+    for (const child of children) {
+      const placement = await placeCategory(
+        child.name,
+        target._id as mongoose.Types.ObjectId,
+        child._id as mongoose.Types.ObjectId
+      );
+      const moved = await Category.findByIdAndUpdate(child._id, placement, {
+        new: true,
+      });
+      if (moved) {
+        await refreshDescendants(moved);
+      }
+    }
+  }
+
+  await Category.updateOne(
+    { _id: category._id },
+    { $set: { deletedAt: new Date() } }
+  );
+  return category;
+}
+
+/**
+ * Move a product to the trash. Orders keep pointing at a trashed product, so
+ * ordered products can be trashed too; the purge keeps them for good.
+ * Cascading removes the product from shopping carts.
+ */
+export async function deleteProductWithPolicy(
+  productId: ObjectIdLike,
+  policy: DeletePolicy
+): Promise<IProduct | null> {
+  const product = await Product.findById(productId);
+  if (!product) {
+    return null;
+  }
+
+  const carts = present({
+    carts: await summarize(Cart, { "items.productId": product._id }),
+  });
+  if (policy === "block" && Object.keys(carts).length > 0) {
+    throw blockedError("Product is still in use and cannot be deleted", carts);
+  }
+
+  await Cart.updateMany(
+    { "items.productId": product._id },
+    { $pull: { items: { productId: product._id } } }
+  );
+  await Product.updateOne(
+    { _id: product._id },
+    { $set: { deletedAt: new Date() } }
+  );
+  return product;
+}
+
+/**
+ * Move a user to the trash. Orders, payments and returns keep pointing at a
+ * trashed user, and the purge keeps users who have any of them for
+ * bookkeeping. Cascading removes the cart. The user is logged out everywhere.
+ */
+export async function deleteUserWithPolicy(
+  userId: ObjectIdLike,
+  policy: DeletePolicy
+): Promise<IUser | null> {
+  const user = await User.findById(userId);
+  if (!user) {
+    return null;
+  }
+
+  const carts = present({
+    carts: await summarize(Cart, { userId: user._id, "items.0": { $exists: true } }),
+  });
+  if (policy === "block" && Object.keys(carts).length > 0) {
+    throw blockedError("User is still referenced and cannot be deleted", carts);
+  }
+
+  await Cart.deleteMany({ userId: user._id });
+  await User.updateOne({ _id: user._id }, { $set: { deletedAt: new Date() } });
+  await revokeUserSessions(user._id as mongoose.Types.ObjectId, "user_deleted");
+  return user;
+}
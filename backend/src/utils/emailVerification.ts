@@ -0,0 +1,140 @@
+import jwt, { SignOptions } from "jsonwebtoken";
+import mongoose from "mongoose";
+import { User } from "../models";
+import { IUser } from "../models/User";
+import { sendMail } from "./mailer";
+import { JWT_SECRET } from "./sessions";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// How long a verification link works, in jsonwebtoken notation
+export const EMAIL_VERIFICATION_TTL = (process.env.EMAIL_VERIFICATION_TTL ||
+  "24h") as NonNullable<SignOptions["expiresIn"]>;
+
+// Minimum seconds between two verification mails to the same user
+export const EMAIL_VERIFICATION_RESEND_SECONDS = Number(
+  process.env.EMAIL_VERIFICATION_RESEND_SECONDS || 60
+);
+
+// Public URL of this API, verification links point at it directly
+export const API_URL = (
+  process.env.API_URL || `http://localhost:${process.env.PORT || 3000}`
+).replace(/\/+$/, "");
+
+// Audience that keeps verification tokens apart from access tokens
+const AUDIENCE = "email-verification";
+
+interface VerificationPayload {
+  sub: string;
+  email: string;
+}
+
+const invalidLink = () =>
+  new Error("Invalid or expired verification link", { cause: { status: 400 } });
+
+/**
+ * Sign a link for the user's current address. The address is part of the
+ * signature, so a link stops working once the email is changed.
+ */
+const verificationLink = (user: IUser): string => {
+  const token = jwt.sign({ email: user.email }, JWT_SECRET, {
+    subject: String(user._id),
+    audience: AUDIENCE,
+    expiresIn: EMAIL_VERIFICATION_TTL,
+  });
+  return `${API_URL}/auth/verify-email?token=${token}`;
+};
+
+/**
+ * Mail a verification link to the user
+ */
+export async function sendVerificationEmail(user: IUser): Promise<void> {
+  await sendMail({
+    to: user.email,
+    subject: "Confirm your email address",
+    text:
+      `Hi ${user.firstName},\n\n` +
+      `Please confirm your email address by opening this link:\n${verificationLink(user)}\n\n` +
+      "You can place orders once your address is confirmed.",
+  });
+}
+
+/**
+ * Send another verification mail, at most one per
+ * EMAIL_VERIFICATION_RESEND_SECONDS. The send time is claimed with a
+ * conditional update so parallel requests can't slip past the throttle.
+ */
+export async function resendVerificationEmail(userId: ObjectIdLike): Promise<void> {
+  const now = new Date();
+  const user = await User.findOneAndUpdate(
+    {
+      _id: userId,
+      // Users from before verification existed have no emailVerified field
+      emailVerified: { $ne: true },
+      $or: [
+        { verificationSentAt: null },
+        {
+          verificationSentAt: {
+            $lte: new Date(now.getTime() - EMAIL_VERIFICATION_RESEND_SECONDS * 1000),
+          },
+        },
+      ],
+    },
+    { $set: { verificationSentAt: now } },
+    { new: true }
+  );
+
+  if (!user) {
+    const current = await User.findById(userId).select("emailVerified verificationSentAt");
+    if (!current) {
+      throw new Error("User not found", { cause: { status: 404 } });
+    }
+    if (current.emailVerified) {
+      throw new Error("Email address is already verified", { cause: { status: 409 } });
+    }
+    // Never sent means the claim lost a race with another request just now
+    const sentAt = current.verificationSentAt?.getTime() ?? now.getTime();
+    const retryAfter = Math.ceil(
+      (sentAt + EMAIL_VERIFICATION_RESEND_SECONDS * 1000 - now.getTime()) / 1000
+    );
+    throw new Error("A verification email was sent recently, please wait before asking again", {
+      cause: { status: 429, details: { retryAfter: Math.max(retryAfter, 1) } },
+    });
+  }
+
+  await sendVerificationEmail(user);
+}
+
+/**
+ * Mark the address in a verification link as verified. Opening the link
+ * again is harmless and returns the already verified user.
+ */
+export async function verifyEmail(token: string): Promise<IUser> {
+  let payload: VerificationPayload;
+  try {
+    payload = jwt.verify(token, JWT_SECRET, {
+      audience: AUDIENCE,
+    }) as VerificationPayload;
+  } catch {
+    throw invalidLink();
+  }
+
+  const user = await User.findById(payload.sub);
+  if (!user || user.email !== payload.email) {
+    throw invalidLink();
+  }
+  if (user.emailVerified) {
+    return user;
+  }
+
+  // Guard on the email so a change made meanwhile isn't marked verified
+  const verified = await User.findOneAndUpdate(
+    { _id: user._id, email: payload.email },
+    { $set: { emailVerified: true, emailVerifiedAt: new Date() } },
+    { new: true }
+  );
+  if (!verified) {
+    throw invalidLink();
+  }
+  return verified;
+}
@@ -1 +1,31 @@
 export * from './aiUtils';
+export * from './orderStatus';
+export * from './inventory';
+export * from './orderItems';
+export * from './checkout';
+export * from './cart';
+export * from './coupons';
+export * from './pricing';
+export * from './payments';
+export * from './paymentLedger';
+export * from './returns';
+export * from './invoices';
+export * from './variants';
+export * from './productSearch';
+export * from './pagination';
+export * from './categoryTree';
+export * from './deletePolicies';
+export * from './reviews';
+export * from './mediaStorage';
+export * from './productImages';
+export * from './csv';
+export * from './catalog';
+export * from './trash';
+export * from './salePrices';
+export * from './priceHistory';
+export * from './recommendations';
+export * from './permissions';
+export * from './sessions';
+export * from './mailer';
+export * from './passwordReset';
+export * from './emailVerification';
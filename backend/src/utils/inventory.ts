@@ -0,0 +1,156 @@
+import mongoose from "mongoose";
+import { Product } from "../models";
+import { OrderStatus } from "../models/Order";
+import { findVariant, lineKey } from "./variants";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export interface StockItem {
+  productId: ObjectIdLike;
+  // Products sold in variants keep stock per variant
+  variantId?: ObjectIdLike | null;
+  quantity: number;
+}
+
+/**
+ * Order statuses whose line items are still held in stock. Once an order
+ * ships the goods have left the warehouse, and cancelled orders have
+ * already given their stock back.
+ */
+export const STOCK_HOLDING_STATUSES: OrderStatus[] = [
+  "pending",
+  "paid",
+  "processing",
+];
+
+export const holdsStock = (status: OrderStatus): boolean => {
+  return STOCK_HOLDING_STATUSES.includes(status);
+};
+
+/**
+ * Sum quantities per product and variant so duplicate lines are reserved in one step
+ */
+const groupByLine = (items: StockItem[]): Map<string, StockItem> => {
+  const totals = new Map<string, StockItem>();
+  for (const item of items) {
+    const key = lineKey(item.productId, item.variantId);
+    const quantity = (totals.get(key)?.quantity || 0) + item.quantity;
+    totals.set(key, {
+      productId: item.productId.toString(),
+      variantId: item.variantId ? item.variantId.toString() : null,
+      quantity,
+    });
+  }
+  return totals;
+};
+
+/**
+ * Build the error for a line that could not be reserved, naming the product
+ * and, for variants, the SKU
+ */
+const insufficientStockError = async (item: StockItem): Promise<Error> => {
+  const product = await Product.findById(item.productId).select(
+    "name stock variants"
+  );
+  const variant = product && item.variantId
+    ? findVariant(product, item.variantId)
+    : undefined;
+  if (!product || (item.variantId && !variant)) {
+    return new Error(`Product ${item.productId} not found`, {
+      cause: { status: 400 },
+    });
+  }
+
+  const name = variant ? `${product.name} (${variant.sku})` : product.name;
+  const available = variant ? variant.stock : product.stock;
+  return new Error(
+    `Insufficient stock for "${name}": requested ${item.quantity}, available ${available}`,
+    {
+      cause: {
+        status: 409,
+        details: {
+          productId: item.productId,
+          ...(variant && { variantId: item.variantId, sku: variant.sku }),
+          name: product.name,
+          requested: item.quantity,
+          available,
+        },
+      },
+    }
+  );
+};
+
+/**
+ * Atomically take stock for every item. Each product (or variant) is
+ * decremented with a conditional update (`stock >= quantity`), so concurrent
+ * checkouts can never oversell. If any line falls short, everything reserved
+ * so far is put back.
+ */
+export async function reserveStock(items: StockItem[]): Promise<void> {
+  const reserved: StockItem[] = [];
+
+  for (const item of groupByLine(items).values()) {
+    const { productId, variantId, quantity } = item;
+    const result = variantId
+      ? await Product.updateOne(
+          {
+            _id: productId,
+            variants: { $elemMatch: { _id: variantId, stock: { $gte: quantity } } },
+          },
+          { $inc: { "variants.$.stock": -quantity } }
+        )
+      : await Product.updateOne(
+          { _id: productId, stock: { $gte: quantity } },
+          { $inc: { stock: -quantity } }
+        );
+
+    if (result.modifiedCount === 0) {
+      await releaseStock(reserved);
+      throw await insufficientStockError(item);
+    }
+    reserved.push(item);
+  }
+}
+
+/**
+ * Return stock for every item. Products or variants that no longer exist are skipped.
+ */
+export async function releaseStock(items: StockItem[]): Promise<void> {
+  for (const { productId, variantId, quantity } of groupByLine(items).values()) {
+    if (variantId) {
+      await Product.updateOne(
+        { _id: productId, "variants._id": variantId },
+        { $inc: { "variants.$.stock": quantity } }
+      );
+    } else {
+      await Product.updateOne({ _id: productId }, { $inc: { stock: quantity } });
+    }
+  }
+}
+
+/**
+ * Work out what changes when an order's lines go from `before` to `after`:
+ * `reserve` holds the extra quantities to take, `release` the ones to give back.
+ */
+export const diffStock = (
+  before: StockItem[],
+  after: StockItem[]
+): { reserve: StockItem[]; release: StockItem[] } => {
+  const oldTotals = groupByLine(before);
+  const newTotals = groupByLine(after);
+  const reserve: StockItem[] = [];
+  const release: StockItem[] = [];
+
+  for (const key of new Set([...oldTotals.keys(), ...newTotals.keys()])) {
+    const line = (newTotals.get(key) || oldTotals.get(key))!;
+    const delta =
+      (newTotals.get(key)?.quantity || 0) - (oldTotals.get(key)?.quantity || 0);
+    if (delta > 0) {
+      reserve.push({ ...line, quantity: delta });
+    } else if (delta < 0) {
+      release.push({ ...line, quantity: -delta });
+    }
+  }
+
+  return { reserve, release };
+};
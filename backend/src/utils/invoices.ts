@@ -0,0 +1,276 @@
+import mongoose from "mongoose";
+import PDFDocument from "pdfkit";
+import { Order } from "../models";
+import { IOrder, IOrderItem } from "../models/Order";
+import { describeVariant } from "./variants";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Customer fields shown on the invoice
+export const INVOICE_USER_FIELDS = "firstName lastName email";
+
+const COMPANY_NAME = process.env.INVOICE_COMPANY_NAME || "eCommerce API";
+const COMPANY_ADDRESS = process.env.INVOICE_COMPANY_ADDRESS || "";
+const CURRENCY = process.env.CURRENCY || "EUR";
+
+// Attempts before giving up when many invoices are numbered at the same time
+const MAX_NUMBERING_ATTEMPTS = 10;
+
+// Pending orders can still be edited and cancelled ones were never sold
+const UNINVOICEABLE_STATUSES = ["pending", "cancelled"];
+
+interface InvoiceCustomer {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+}
+
+/**
+ * Format a sequence number as an invoice number, e.g. 42 -> INV-000042
+ */
+export const formatInvoiceNumber = (seq: number): string => {
+  return `INV-${String(seq).padStart(6, "0")}`;
+};
+
+const isDuplicateKeyError = (error: unknown): boolean => {
+  return (error as { code?: number })?.code === 11000;
+};
+
+/**
+ * Give an order its invoice number, or return the one it already has.
+ * Numbers are the highest assigned number plus one; the unique index on
+ * `invoiceSeq` turns a race between two orders into a retry instead of a
+ * duplicate, and a number is only taken together with its order, so the
+ * sequence has no gaps. Only paid orders get a number, so an invoice never
+ * changes after it was issued. Invoiced orders must never be deleted.
+ */
+export async function assignInvoiceNumber(orderId: ObjectIdLike): Promise<IOrder> {
+  for (let attempt = 1; attempt <= MAX_NUMBERING_ATTEMPTS; attempt++) {
+    const order = await Order.findById(orderId);
+    if (!order) {
+      throw new Error("Order not found", { cause: { status: 404 } });
+    }
+    if (order.invoiceSeq) {
+      return order;
+    }
+    if (UNINVOICEABLE_STATUSES.includes(order.status)) {
+      throw new Error(`A ${order.status} order cannot be invoiced`, {
+        cause: { status: 409 },
+      });
+    }
+
+    const last = await Order.findOne({ invoiceSeq: { $exists: true } })
+      .sort({ invoiceSeq: -1 })
+      .select("invoiceSeq");
+    const seq = (last?.invoiceSeq || 0) + 1;
+
+    try {
+      const updated = await Order.findOneAndUpdate(
+        {
+          _id: order._id,
+          invoiceSeq: { $exists: false },
+          status: { $nin: UNINVOICEABLE_STATUSES },
+        },
+        {
+          invoiceSeq: seq,
+          invoiceNumber: formatInvoiceNumber(seq),
+          invoicedAt: new Date(),
+        },
+        { new: true }
+      );
+      // null means a concurrent request numbered or cancelled this order first; the next loop sees it
+      if (updated) {
+        return updated;
+      }
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error("Could not assign an invoice number, please retry", {
+    cause: { status: 503 },
+  });
+}
+
+const formatMoney = (amount: number): string => {
+  return `${amount.toFixed(2)} ${CURRENCY}`;
+};
+
+const formatDate = (date?: Date): string => {
+  return date ? date.toISOString().slice(0, 10) : "";
+};
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+};
+
+// Product name plus variant options and SKU, e.g. "T-Shirt (size: M) - SKU TS-M"
+const itemLabel = (item: IOrderItem): string => {
+  if (!item.sku) {
+    return item.name;
+  }
+  const options = describeVariant(item.options ?? {});
+  return `${item.name}${options ? ` (${options})` : ""} - SKU ${item.sku}`;
+};
+
+const customerOf = (order: IOrder): InvoiceCustomer => {
+  return (order.userId as unknown as InvoiceCustomer) || {};
+};
+
+/**
+ * The summary lines under the item table, skipping components that are zero
+ */
+const totalLines = (order: IOrder): Array<[string, string]> => {
+  const lines: Array<[string, string]> = [["Subtotal", formatMoney(order.subtotal ?? order.total)]];
+  if (order.discountTotal) {
+    lines.push([
+      `Discount${order.discount ? ` (${order.discount.code})` : ""}`,
+      `-${formatMoney(order.discountTotal)}`,
+    ]);
+  }
+  lines.push(["Shipping", formatMoney(order.shipping || 0)]);
+  if (order.tax) {
+    const rate = `${Math.round((order.taxRate || 0) * 10000) / 100}%`;
+    lines.push([
+      order.taxInclusive ? `Included tax (${rate})` : `Tax (${rate})`,
+      formatMoney(order.tax),
+    ]);
+  }
+  lines.push(["Total", formatMoney(order.total)]);
+  return lines;
+};
+
+/**
+ * Render an invoice as a standalone HTML page. Expects the order's userId
+ * to be populated with INVOICE_USER_FIELDS.
+ */
+export const renderInvoiceHtml = (order: IOrder): string => {
+  const customer = customerOf(order);
+  const customerName = [customer.firstName, customer.lastName].filter(Boolean).join(" ");
+
+  const rows = order.products
+    .map(
+      (item) => `
+        <tr>
+          <td>${escapeHtml(itemLabel(item))}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${formatMoney(item.unitPrice)}</td>
+          <td class="num">${formatMoney(item.subtotal)}</td>
+        </tr>`
+    )
+    .join("");
+
+  const totals = totalLines(order)
+    .map(
+      ([label, value]) => `
+        <tr>
+          <td colspan="3" class="num">${escapeHtml(label)}</td>
+          <td class="num">${value}</td>
+        </tr>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(order.invoiceNumber || "")}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; margin: 40px; color: #222; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    .num { text-align: right; }
+  </style>
+</head>
+<body>
+  <h1>Invoice ${escapeHtml(order.invoiceNumber || "")}</h1>
+  <p><strong>${escapeHtml(COMPANY_NAME)}</strong><br>${escapeHtml(COMPANY_ADDRESS)}</p>
+  <p>
+    Invoice date: ${formatDate(order.invoicedAt)}<br>
+    Order: ${escapeHtml(String(order._id))}<br>
+    Order date: ${formatDate(order.get("createdAt"))}
+  </p>
+  <p>
+    Bill to:<br>
+    ${escapeHtml(customerName)}<br>
+    ${escapeHtml(customer.email || "")}
+  </p>
+  <table>
+    <thead>
+      <tr><th>Item</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>${totals}
+    </tfoot>
+  </table>
+</body>
+</html>
+`;
+};
+
+/**
+ * Render an invoice as a PDF. Expects the order's userId to be populated
+ * with INVOICE_USER_FIELDS.
+ */
+export const renderInvoicePdf = (order: IOrder): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const customer = customerOf(order);
+    const customerName = [customer.firstName, customer.lastName].filter(Boolean).join(" ");
+
+    doc.fontSize(20).text(`Invoice ${order.invoiceNumber || ""}`);
+    doc.moveDown();
+    doc.fontSize(10).text(COMPANY_NAME).text(COMPANY_ADDRESS);
+    doc.moveDown();
+    doc
+      .text(`Invoice date: ${formatDate(order.invoicedAt)}`)
+      .text(`Order: ${String(order._id)}`)
+      .text(`Order date: ${formatDate(order.get("createdAt"))}`);
+    doc.moveDown();
+    doc.text("Bill to:").text(customerName).text(customer.email || "");
+    doc.moveDown(2);
+
+    const columns = { item: 50, qty: 300, unit: 360, amount: 460 };
+    const row = (item: string, qty: string, unit: string, amount: string) => {
+      const y = doc.y;
+      doc.text(item, columns.item, y, { width: 240 });
+      const bottom = doc.y;
+      doc.text(qty, columns.qty, y, { width: 50, align: "right" });
+      doc.text(unit, columns.unit, y, { width: 90, align: "right" });
+      doc.text(amount, columns.amount, y, { width: 90, align: "right" });
+      doc.y = Math.max(bottom, doc.y);
+      doc.x = columns.item;
+    };
+
+    doc.font("Helvetica-Bold");
+    row("Item", "Qty", "Unit price", "Amount");
+    doc.font("Helvetica");
+    for (const item of order.products) {
+      row(
+        itemLabel(item),
+        String(item.quantity),
+        formatMoney(item.unitPrice),
+        formatMoney(item.subtotal)
+      );
+    }
+    doc.moveDown();
+    for (const [label, value] of totalLines(order)) {
+      row("", "", label, value);
+    }
+
+    doc.end();
+  });
+};
@@ -0,0 +1,95 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers outgoing mail. The console and file transports keep local
+ * development and tests offline; an SMTP or API adapter only has to
+ * implement send() and be installed with setMailTransport().
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || "no-reply@example.com";
+
+// Directory the file transport writes one JSON file per message to
+export const MAIL_OUTBOX = path.resolve(process.env.MAIL_OUTBOX || "mail-outbox");
+
+/**
+ * Print mail to the server log
+ */
+export const createConsoleTransport = (): MailTransport => ({
+  async send(message) {
+    console.log(
+      `Mail to ${message.to} from ${message.from}: ${message.subject}\n${message.text}`
+    );
+  },
+});
+
+/**
+ * Write each message to its own file in `dir`, named so they sort by time
+ */
+export const createFileTransport = (dir: string = MAIL_OUTBOX): MailTransport => ({
+  async send(message) {
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(
+      dir,
+      `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.json`
+    );
+    await fs.writeFile(
+      file,
+      JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+const createTransport = (name: string): MailTransport => {
+  switch (name) {
+    case "console":
+      return createConsoleTransport();
+    case "file":
+      return createFileTransport();
+    default:
+      throw new Error(`Mail transport ${name} is not configured, use console or file`);
+  }
+};
+
+/**
+ * Stand-in used in production until a transport is configured. Mails carry
+ * reset and verification links, so they must never end up in the log.
+ */
+const createUnconfiguredTransport = (): MailTransport => {
+  console.error(
+    "No mail transport configured: set MAIL_TRANSPORT or call setMailTransport(), mail will fail until then"
+  );
+  return {
+    async send() {
+      throw new Error("No mail transport configured");
+    },
+  };
+};
+
+let mailTransport: MailTransport = process.env.MAIL_TRANSPORT
+  ? createTransport(process.env.MAIL_TRANSPORT)
+  : process.env.NODE_ENV === "production"
+    ? createUnconfiguredTransport()
+    : createConsoleTransport();
+
+/**
+ * Replace the transport, e.g. with a real mail service adapter
+ */
+export const setMailTransport = (transport: MailTransport): void => {
+  mailTransport = transport;
+};
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await mailTransport.send({ from: MAIL_FROM, ...message });
+}
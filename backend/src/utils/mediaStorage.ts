@@ -0,0 +1,47 @@
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Where uploaded media lives. Keys are relative paths such as
+ * "products/<id>/<file>.webp"; swapping the adapter (e.g. for S3) only
+ * changes where bytes go and which URL serves them.
+ */
+export interface MediaStorage {
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  url(key: string): string;
+}
+
+// Directory the local adapter writes to, served by the API under /media
+export const LOCAL_MEDIA_ROOT = path.resolve(process.env.MEDIA_ROOT || "uploads");
+
+// Public prefix of media URLs, e.g. https://api.example.com/media
+const MEDIA_BASE_URL = (process.env.MEDIA_BASE_URL || "/media").replace(/\/+$/, "");
+
+const resolveKey = (root: string, key: string): string => {
+  const file = path.resolve(root, key);
+  if (!file.startsWith(root + path.sep)) {
+    throw new Error("Invalid media key", { cause: { status: 400 } });
+  }
+  return file;
+};
+
+/**
+ * Store media on the local disk below `root`
+ */
+export const createLocalStorage = (root: string = LOCAL_MEDIA_ROOT): MediaStorage => ({
+  async save(key, data) {
+    const file = resolveKey(root, key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  },
+  async remove(key) {
+    // Removing a file that is already gone is not an error
+    await fs.rm(resolveKey(root, key), { force: true });
+  },
+  url(key) {
+    return `${MEDIA_BASE_URL}/${key}`;
+  },
+});
+
+export const mediaStorage: MediaStorage = createLocalStorage();
@@ -0,0 +1,79 @@
+import mongoose from "mongoose";
+import { Product } from "../models";
+import { IOrderItem } from "../models/Order";
+import { lineKey, resolveVariant } from "./variants";
+import { currentPrice } from "./salePrices";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export interface OrderItemInput {
+  productId: ObjectIdLike;
+  variantId?: ObjectIdLike | null;
+  quantity: number;
+}
+
+/**
+ * Round a currency amount to cents
+ */
+export const roundMoney = (amount: number): number => {
+  return Math.round(amount * 100) / 100;
+};
+
+/**
+ * Turn requested products into order lines with the product name, unit price
+ * and subtotal frozen at purchase time. Lines for products that were already
+ * on the order keep their original snapshot, so editing quantities never
+ * reprices what the customer agreed to.
+ */
+export async function buildOrderItems(
+  requested: OrderItemInput[],
+  previous: IOrderItem[] = []
+): Promise<{ items: IOrderItem[]; subtotal: number }> {
+  const snapshots = new Map(
+    previous.map((item) => [lineKey(item.productId, item.variantId), item])
+  );
+
+  const items: IOrderItem[] = [];
+  for (const line of requested) {
+    let snapshot:
+      | Pick<IOrderItem, "sku" | "options" | "name" | "unitPrice" | "weight">
+      | undefined = snapshots.get(lineKey(line.productId, line.variantId));
+
+    if (!snapshot) {
+      const product = await Product.findById(line.productId);
+      if (!product) {
+        throw new Error(`Product ${line.productId} not found`, {
+          cause: { status: 400 },
+        });
+      }
+      const variant = resolveVariant(product, line.variantId);
+      snapshot = {
+        sku: variant?.sku ?? null,
+        options: variant?.options ?? null,
+        name: product.name,
+        // Running sales are frozen into the line like the regular price
+        unitPrice: currentPrice(product, variant),
+        weight: product.weight,
+      };
+    }
+
+    items.push({
+      productId: new mongoose.Types.ObjectId(line.productId.toString()),
+      variantId: line.variantId
+        ? new mongoose.Types.ObjectId(line.variantId.toString())
+        : null,
+      sku: snapshot.sku ?? null,
+      options: snapshot.options ?? null,
+      name: snapshot.name,
+      unitPrice: snapshot.unitPrice,
+      weight: snapshot.weight || 0,
+      quantity: line.quantity,
+      subtotal: roundMoney(snapshot.unitPrice * line.quantity),
+    });
+  }
+
+  const subtotal = roundMoney(
+    items.reduce((sum, item) => sum + item.subtotal, 0)
+  );
+  return { items, subtotal };
+}
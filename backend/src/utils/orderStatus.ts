@@ -0,0 +1,101 @@
+import mongoose from "mongoose";
+import { Order } from "../models";
+import { IOrder, OrderStatus } from "../models/Order";
+import { holdsStock, releaseStock } from "./inventory";
+import { releaseCoupon } from "./coupons";
+import { PURCHASED_STATUSES, recordCoPurchases } from "./recommendations";
+
+/**
+ * Allowed order status transitions. Delivered and cancelled are final.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+interface TransitionOptions {
+  changedBy?: string | mongoose.Types.ObjectId;
+  note?: string;
+  // Narrows the statuses the order may be moved from, e.g. for customers
+  allowedFrom?: OrderStatus[];
+}
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Move an order to a new status and append the change to its history.
+ * The update is conditional on the status we validated against, so two
+ * concurrent transitions can never both succeed.
+ */
+export async function transitionOrderStatus(
+  orderId: string | mongoose.Types.ObjectId,
+  to: OrderStatus,
+  options: TransitionOptions = {}
+): Promise<IOrder> {
+  const order = await Order.findById(orderId);
+  if (!order) {
+    throw new Error("Order not found", { cause: { status: 404 } });
+  }
+
+  const from = order.status;
+  if (options.allowedFrom && !options.allowedFrom.includes(from)) {
+    throw new Error(`Order cannot be ${to} once it is ${from}`, {
+      cause: { status: 409 },
+    });
+  }
+  if (!canTransition(from, to)) {
+    throw new Error(`Cannot change order status from ${from} to ${to}`, {
+      cause: { status: 409 },
+    });
+  }
+
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, status: from },
+    {
+      $set: { status: to },
+      $push: {
+        statusHistory: {
+          from,
+          to,
+          changedBy: options.changedBy,
+          note: options.note,
+          changedAt: new Date(),
+        },
+      },
+    },
+    { new: true }
+  );
+
+  if (!updated) {
+    throw new Error("Order status was changed by another request, please retry", {
+      cause: { status: 409 },
+    });
+  }
+
+  // Cancelling frees the stock and coupon use the order was holding
+  if (to === "cancelled" && holdsStock(from)) {
+    await releaseStock(updated.products);
+  }
+  if (to === "cancelled" && updated.discount) {
+    await releaseCoupon(updated.discount.couponId, updated.userId);
+  }
+
+  // Paid orders feed "bought together" recommendations until they are cancelled
+  if (to === "paid") {
+    await recordCoPurchases(updated, 1);
+  }
+  if (to === "cancelled" && PURCHASED_STATUSES.includes(from)) {
+    await recordCoPurchases(updated, -1);
+  }
+
+  return updated;
+}
@@ -0,0 +1,228 @@
+import { Request } from "express";
+import mongoose, { FilterQuery, Model } from "mongoose";
+import { ApiResponse, PaginationLinks } from "../types";
+
+export const DEFAULT_PAGE_LIMIT = 20;
+
+// Field a list is ordered by; ties are broken by _id in the same direction
+export interface SortKey {
+  field: string;
+  direction: 1 | -1;
+}
+
+export interface PageOptions {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+type CursorDirection = "next" | "prev";
+
+interface CursorPayload {
+  // Sort the cursor was issued for, so it can't be replayed against another order
+  s: string;
+  d: CursorDirection;
+  // Sort value and _id of the item the page starts after
+  v: [unknown, string];
+}
+
+export interface KeysetQuery {
+  limit: number;
+  backwards: boolean;
+  hasCursor: boolean;
+  // Condition selecting the items after the cursor, empty on the first page
+  match: Record<string, unknown>;
+  sort: Record<string, 1 | -1>;
+}
+
+const sortId = (sort: SortKey): string => `${sort.field}:${sort.direction}`;
+
+// Dates survive the JSON round trip tagged, everything else as is
+const encodeValue = (value: unknown): unknown => {
+  return value instanceof Date ? { $date: value.toISOString() } : value;
+};
+
+const invalidCursor = () =>
+  new Error("Invalid cursor", { cause: { status: 400 } });
+
+// Only plain values come back, an object would end up as a query operator
+const decodeValue = (value: unknown): unknown => {
+  if (value === null || ["string", "number", "boolean"].includes(typeof value)) {
+    return value;
+  }
+  if (typeof value === "object" && "$date" in value) {
+    const date = new Date(String((value as { $date: unknown }).$date));
+    if (!Number.isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  throw invalidCursor();
+};
+
+const encodeCursor = (
+  sort: SortKey,
+  direction: CursorDirection,
+  value: unknown,
+  id: unknown
+): string => {
+  const payload: CursorPayload = {
+    s: sortId(sort),
+    d: direction,
+    v: [encodeValue(value), String(id)],
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+};
+
+const decodeCursor = (cursor: string, sort: SortKey): CursorPayload => {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw invalidCursor();
+  }
+  if (
+    payload?.s !== sortId(sort) ||
+    !["next", "prev"].includes(payload.d) ||
+    !Array.isArray(payload.v) ||
+    typeof payload.v[1] !== "string" ||
+    !mongoose.Types.ObjectId.isValid(payload.v[1])
+  ) {
+    throw invalidCursor();
+  }
+  return payload;
+};
+
+/**
+ * Work out the filter, sort and limit for one page. Pages are selected by
+ * the sort value and _id of the item at the page edge (keyset pagination)
+ * rather than an offset, so items inserted or removed elsewhere in the list
+ * never shift a page or make it repeat items.
+ */
+export const keysetQuery = (sort: SortKey, options: PageOptions): KeysetQuery => {
+  const limit = options.limit ?? DEFAULT_PAGE_LIMIT;
+  const cursor = options.cursor ? decodeCursor(options.cursor, sort) : null;
+  const backwards = cursor?.d === "prev";
+  const direction = (backwards ? -sort.direction : sort.direction) as 1 | -1;
+  const op = direction === 1 ? "$gt" : "$lt";
+
+  let match: Record<string, unknown> = {};
+  if (cursor) {
+    const value = decodeValue(cursor.v[0]);
+    const id = new mongoose.Types.ObjectId(cursor.v[1]);
+    match = {
+      $or: [
+        { [sort.field]: { [op]: value } },
+        { [sort.field]: value, _id: { [op]: id } },
+      ],
+    };
+  }
+
+  return {
+    limit,
+    backwards,
+    hasCursor: !!cursor,
+    match,
+    sort: { [sort.field]: direction, _id: direction },
+  };
+};
+
+/**
+ * Cut the `limit + 1` items fetched for a keyset query down to a page and
+ * issue cursors for its edges. `valueOf` reads the sort value and _id of an item.
+ */
+export const toPage = <T>(
+  docs: T[],
+  sort: SortKey,
+  query: KeysetQuery,
+  valueOf: (doc: T) => [unknown, unknown]
+): Page<T> => {
+  const hasMore = docs.length > query.limit;
+  const items = docs.slice(0, query.limit);
+  if (query.backwards) {
+    items.reverse();
+  }
+
+  const cursorFor = (doc: T | undefined, direction: CursorDirection) => {
+    if (!doc) return null;
+    const [value, id] = valueOf(doc);
+    return encodeCursor(sort, direction, value, id);
+  };
+
+  // Walking forwards there is more ahead only if the extra item came back;
+  // walking backwards the page we came from is always ahead
+  const moreAfter = query.backwards || hasMore;
+  const moreBefore = query.backwards ? hasMore : query.hasCursor;
+
+  return {
+    items,
+    limit: query.limit,
+    nextCursor: moreAfter ? cursorFor(items[items.length - 1], "next") : null,
+    prevCursor: moreBefore ? cursorFor(items[0], "prev") : null,
+  };
+};
+
+/**
+ * Fetch one page of a model with find(), optionally populating a path
+ */
+export async function paginateFind<T extends mongoose.Document>(
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  sort: SortKey,
+  options: PageOptions,
+  populate?: { path: string; select: string }
+): Promise<Page<T>> {
+  const query = keysetQuery(sort, options);
+  const conditions = query.hasCursor ? { $and: [filter, query.match] } : filter;
+
+  let find = model
+    .find(conditions as FilterQuery<T>)
+    .sort(query.sort)
+    .limit(query.limit + 1);
+  if (populate) {
+    find = find.populate(populate.path, populate.select);
+  }
+  const docs = await find;
+
+  return toPage(docs, sort, query, (doc) => [doc.get(sort.field), doc._id]);
+}
+
+/**
+ * Links to the neighbouring pages: the current URL with the cursor swapped
+ */
+export const paginationLinks = <T>(req: Request, page: Page<T>): PaginationLinks => {
+  const link = (cursor: string | null) => {
+    if (!cursor) return null;
+    const url = new URL(req.originalUrl, "http://localhost");
+    url.searchParams.set("cursor", cursor);
+    url.searchParams.set("limit", String(page.limit));
+    return `${url.pathname}${url.search}`;
+  };
+
+  return {
+    limit: page.limit,
+    next: link(page.nextCursor),
+    prev: link(page.prevCursor),
+  };
+};
+
+/**
+ * Wrap a page in the standard list envelope
+ */
+export const paginatedResponse = <T>(
+  req: Request,
+  page: Page<T>,
+  meta?: Record<string, unknown>
+): ApiResponse<T[]> => {
+  return {
+    success: true,
+    data: page.items,
+    pagination: paginationLinks(req, page),
+    ...(meta && { meta }),
+  };
+};
@@ -0,0 +1,76 @@
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { PasswordResetToken, User } from "../models";
+import { sendMail } from "./mailer";
+import { revokeUserSessions } from "./sessions";
+
+// Minutes a reset link stays valid
+export const PASSWORD_RESET_TTL_MINUTES = Number(
+  process.env.PASSWORD_RESET_TTL_MINUTES || 60
+);
+
+// Base URL of the client, links in mails point at its pages
+export const APP_URL = (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Mail a reset link to the user with this email. Unknown or deactivated
+ * addresses are skipped silently: the caller answers the same either way,
+ * so the endpoint can't be used to find out who has an account.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await User.findOne({ email: email.trim().toLowerCase() });
+  if (!user || user.isActive === false) {
+    return;
+  }
+
+  // Only the newest link works
+  await PasswordResetToken.deleteMany({ userId: user._id, usedAt: null });
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  await PasswordResetToken.create({
+    userId: user._id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  });
+
+  const link = `${APP_URL}/reset-password?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text:
+      `Hi ${user.firstName},\n\n` +
+      `Use this link within ${PASSWORD_RESET_TTL_MINUTES} minutes to choose a new password:\n${link}\n\n` +
+      "If you didn't ask for this, you can ignore this email; your password stays the same.",
+  });
+}
+
+/**
+ * Set a new password with a reset token. The token is claimed with a
+ * conditional update so it works exactly once, even when sent twice at
+ * the same time. All sessions are logged out afterwards, in case the
+ * account was taken over with the old password.
+ */
+export async function resetPassword(token: string, password: string): Promise<void> {
+  const claimed = await PasswordResetToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+  if (!claimed) {
+    throw new Error("Invalid or expired reset token", { cause: { status: 400 } });
+  }
+
+  const user = await User.findOneAndUpdate(
+    { _id: claimed.userId, isActive: { $ne: false } },
+    { $set: { password: await bcrypt.hash(password, 10) } }
+  );
+  if (!user) {
+    throw new Error("Invalid or expired reset token", { cause: { status: 400 } });
+  }
+
+  await revokeUserSessions(user._id as mongoose.Types.ObjectId, "password_changed");
+}
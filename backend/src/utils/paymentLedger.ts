@@ -0,0 +1,187 @@
+import mongoose from "mongoose";
+import { Order, Payment } from "../models";
+import { IPayment } from "../models/Payment";
+import { transitionOrderStatus } from "./orderStatus";
+import { roundMoney } from "./orderItems";
+import { getPaymentProvider } from "./payments";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+interface EventInfo {
+  eventId?: string;
+  type: string;
+}
+
+// Remember which webhook event caused a change so retries are recognised
+const withEvent = (update: Record<string, unknown>, event?: EventInfo) =>
+  event
+    ? { ...update, $push: { events: { ...event, receivedAt: new Date() } } }
+    : update;
+
+/**
+ * Give back a captured payment that no order took. A failed refund is
+ * logged for staff rather than failing the capture that was already made.
+ */
+const refundUnclaimed = async (payment: IPayment, reason: string): Promise<IPayment> => {
+  try {
+    return await issueRefund(payment._id as mongoose.Types.ObjectId, undefined, reason, {
+      unclaimed: true,
+    });
+  } catch (error) {
+    console.error(`Failed to refund unclaimed payment ${payment.providerRef}:`, error);
+    return payment;
+  }
+};
+
+/**
+ * Record a successful capture and mark the order as paid. Safe to call more
+ * than once for the same payment, e.g. from the capture endpoint and a webhook.
+ * The order is claimed with a conditional update: it has to be pending, not
+ * paid by another payment, and still have the captured total. Otherwise the
+ * money is refunded instead of leaving the customer charged twice.
+ */
+export async function recordCapture(
+  payment: IPayment,
+  event?: EventInfo
+): Promise<IPayment> {
+  const updated = await Payment.findOneAndUpdate(
+    { _id: payment._id, status: { $in: ["requires_capture", "failed"] } },
+    withEvent({ $set: { status: "captured" }, $unset: { failureReason: "" } }, event),
+    { new: true }
+  );
+  if (!updated) {
+    // Already captured or refunded, nothing left to do
+    return (await Payment.findById(payment._id))!;
+  }
+
+  const claimed = await Order.findOneAndUpdate(
+    {
+      _id: payment.orderId,
+      status: "pending",
+      paymentStatus: { $ne: "paid" },
+      total: payment.amount,
+    },
+    { paymentStatus: "paid" }
+  );
+  if (!claimed) {
+    return refundUnclaimed(updated, "Order was no longer awaiting this payment");
+  }
+
+  try {
+    await transitionOrderStatus(claimed._id as mongoose.Types.ObjectId, "paid", {
+      note: `Payment ${payment.providerRef} captured via ${payment.provider}`,
+    });
+  } catch (error) {
+    // Cancelled in the meantime
+    await Order.updateOne({ _id: claimed._id }, { paymentStatus: claimed.paymentStatus });
+    return refundUnclaimed(updated, "Order was cancelled while the payment was captured");
+  }
+  return updated;
+}
+
+/**
+ * Record a failed payment attempt. The order stays pending so the customer can retry.
+ */
+export async function recordFailure(
+  payment: IPayment,
+  reason: string,
+  event?: EventInfo
+): Promise<IPayment> {
+  const updated = await Payment.findOneAndUpdate(
+    { _id: payment._id, status: "requires_capture" },
+    withEvent({ $set: { status: "failed", failureReason: reason } }, event),
+    { new: true }
+  );
+  if (!updated) {
+    return (await Payment.findById(payment._id))!;
+  }
+
+  await Order.updateOne(
+    { _id: payment.orderId, paymentStatus: { $in: ["unpaid", "failed"] } },
+    { paymentStatus: "failed" }
+  );
+  return updated;
+}
+
+interface RefundOptions {
+  // The payment never paid for its order, so the order's payment status stays
+  unclaimed?: boolean;
+}
+
+/**
+ * Refund part or all of a captured payment through its provider and update
+ * the payment and order. Defaults to refunding whatever is left.
+ */
+export async function issueRefund(
+  paymentId: ObjectIdLike,
+  amount?: number,
+  reason?: string,
+  options: RefundOptions = {}
+): Promise<IPayment> {
+  const payment = await Payment.findById(paymentId);
+  if (!payment) {
+    throw new Error("Payment not found", { cause: { status: 404 } });
+  }
+  if (!["captured", "partially_refunded"].includes(payment.status)) {
+    throw new Error(`A ${payment.status} payment cannot be refunded`, {
+      cause: { status: 409 },
+    });
+  }
+
+  const refundable = roundMoney(payment.amount - payment.amountRefunded);
+  const refundAmount = roundMoney(amount ?? refundable);
+  if (refundAmount <= 0 || refundAmount > refundable) {
+    throw new Error(`Refund amount must be between 0.01 and ${refundable}`, {
+      cause: { status: 400 },
+    });
+  }
+
+  const amountRefunded = roundMoney(payment.amountRefunded + refundAmount);
+  const status = amountRefunded >= payment.amount ? "refunded" : "partially_refunded";
+
+  // Claim the amount first, conditional on the previous total, so two
+  // concurrent refunds can never both pass the limit check
+  const claimed = await Payment.findOneAndUpdate(
+    { _id: payment._id, amountRefunded: payment.amountRefunded },
+    { $set: { status, amountRefunded } }
+  );
+  if (!claimed) {
+    throw new Error("Payment was refunded by another request, please retry", {
+      cause: { status: 409 },
+    });
+  }
+
+  let refund;
+  try {
+    refund = await getPaymentProvider(payment.provider).refund(
+      payment.providerRef,
+      refundAmount
+    );
+  } catch (error) {
+    await Payment.updateOne(
+      { _id: payment._id },
+      { $set: { status: payment.status }, $inc: { amountRefunded: -refundAmount } }
+    );
+    throw error;
+  }
+
+  const updated = await Payment.findByIdAndUpdate(
+    payment._id,
+    {
+      $push: {
+        refunds: {
+          refundRef: refund.refundRef,
+          amount: refundAmount,
+          reason,
+          createdAt: new Date(),
+        },
+      },
+    },
+    { new: true }
+  );
+
+  if (!options.unclaimed) {
+    await Order.updateOne({ _id: payment.orderId }, { paymentStatus: status });
+  }
+  return updated!;
+}
@@ -0,0 +1,201 @@
+import crypto from "crypto";
+
+export type PaymentIntentStatus = "requires_capture" | "captured" | "failed";
+
+export type PaymentWebhookType =
+  | "payment.succeeded"
+  | "payment.failed"
+  | "payment.refunded";
+
+export interface CreateIntentInput {
+  amount: number;
+  currency: string;
+  orderId: string;
+  paymentMethod?: string;
+}
+
+export interface PaymentIntentResult {
+  providerRef: string;
+  clientSecret: string;
+  status: PaymentIntentStatus;
+}
+
+export interface CaptureResult {
+  status: "captured" | "failed";
+  amount: number;
+  failureReason?: string;
+}
+
+export interface RefundResult {
+  refundRef: string;
+  amount: number;
+}
+
+// Provider-neutral shape of a verified webhook callback
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookType;
+  providerRef: string;
+  amount?: number;
+  failureReason?: string;
+}
+
+/**
+ * Contract every payment provider implements. Amounts are in major units (e.g. euros).
+ */
+export interface PaymentProvider {
+  name: string;
+  createIntent(input: CreateIntentInput): Promise<PaymentIntentResult>;
+  capture(providerRef: string, amount: number): Promise<CaptureResult>;
+  refund(providerRef: string, amount: number): Promise<RefundResult>;
+  // Throws a 400 error if the signature does not match the raw body
+  verifyWebhook(
+    rawBody: Buffer | string,
+    signatureHeader: string | undefined
+  ): PaymentWebhookEvent;
+}
+
+// Reject callbacks signed more than five minutes ago to stop replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export const PAYMENT_SIGNATURE_HEADER = "X-Payment-Signature";
+
+/**
+ * Sign a webhook payload. The header value is `t=<unix seconds>,v1=<hex hmac>`
+ * where the HMAC-SHA256 covers `<t>.<raw body>`.
+ */
+export const signWebhookPayload = (
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+};
+
+/**
+ * Check a signature header produced by signWebhookPayload
+ */
+export const verifyWebhookSignature = (
+  payload: string,
+  header: string | undefined,
+  secret: string
+): boolean => {
+  if (!header) {
+    return false;
+  }
+
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.trim().split("=") as [string, string])
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) {
+    return false;
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(payload, secret, timestamp).split("v1=")[1];
+  const received = Buffer.from(parts.v1, "hex");
+  const wanted = Buffer.from(expected, "hex");
+  return received.length === wanted.length && crypto.timingSafeEqual(received, wanted);
+};
+
+// Payment methods understood by the mock provider
+export const MOCK_PAYMENT_METHODS = ["mock_card_ok", "mock_card_declined"] as const;
+
+/**
+ * Offline provider for development and tests. Intents live in memory;
+ * `mock_card_declined` makes the capture fail.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  name = "mock";
+
+  private intents = new Map<string, { amount: number; paymentMethod: string }>();
+
+  // Without a secret anyone could forge a webhook, so none are accepted
+  constructor(private webhookSecret?: string) {}
+
+  async createIntent(input: CreateIntentInput): Promise<PaymentIntentResult> {
+    const providerRef = `mock_pi_${crypto.randomBytes(12).toString("hex")}`;
+    this.intents.set(providerRef, {
+      amount: input.amount,
+      paymentMethod: input.paymentMethod || "mock_card_ok",
+    });
+    return {
+      providerRef,
+      clientSecret: `${providerRef}_secret_${crypto.randomBytes(8).toString("hex")}`,
+      status: "requires_capture",
+    };
+  }
+
+  async capture(providerRef: string, amount: number): Promise<CaptureResult> {
+    const intent = this.intents.get(providerRef);
+    if (!intent) {
+      return { status: "failed", amount, failureReason: "Unknown payment intent" };
+    }
+    if (intent.paymentMethod === "mock_card_declined") {
+      return { status: "failed", amount, failureReason: "Card declined" };
+    }
+    return { status: "captured", amount };
+  }
+
+  async refund(providerRef: string, amount: number): Promise<RefundResult> {
+    return {
+      refundRef: `mock_re_${crypto.randomBytes(12).toString("hex")}`,
+      amount,
+    };
+  }
+
+  verifyWebhook(
+    rawBody: Buffer | string,
+    signatureHeader: string | undefined
+  ): PaymentWebhookEvent {
+    if (!this.webhookSecret) {
+      throw new Error("Payment webhooks are disabled, PAYMENT_WEBHOOK_SECRET is not set", {
+        cause: { status: 503 },
+      });
+    }
+    const payload = rawBody.toString();
+    if (!verifyWebhookSignature(payload, signatureHeader, this.webhookSecret)) {
+      throw new Error("Invalid webhook signature", { cause: { status: 400 } });
+    }
+    try {
+      return JSON.parse(payload) as PaymentWebhookEvent;
+    } catch (error) {
+      throw new Error("Invalid webhook payload", { cause: { status: 400 } });
+    }
+  }
+}
+
+const providers = new Map<string, PaymentProvider>([
+  [
+    "mock",
+    new MockPaymentProvider(process.env.PAYMENT_WEBHOOK_SECRET || undefined),
+  ],
+]);
+
+/**
+ * Register an additional provider, e.g. a real gateway adapter
+ */
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+/**
+ * Look up a provider by name, defaulting to PAYMENT_PROVIDER or the mock
+ */
+export const getPaymentProvider = (name?: string): PaymentProvider => {
+  const providerName = name || process.env.PAYMENT_PROVIDER || "mock";
+  const provider = providers.get(providerName);
+  if (!provider) {
+    throw new Error(`Payment provider ${providerName} is not configured`, {
+      cause: { status: 500 },
+    });
+  }
+  return provider;
+};
@@ -0,0 +1,62 @@
+import { User } from "../models";
+import { UserRole } from "../models/User";
+import { AuthPayload } from "../types";
+
+/**
+ * What each role may do. Routes declare the permission they need rather than
+ * a list of roles, so granting staff a new area is a change in one place.
+ */
+export const PERMISSIONS = {
+  "catalog:write": ["admin", "staff"],
+  "orders:manage": ["admin", "staff"],
+  "returns:manage": ["admin", "staff"],
+  "reviews:moderate": ["admin", "staff"],
+  "coupons:manage": ["admin", "staff"],
+  "payments:manage": ["admin"],
+  "users:read": ["admin", "staff"],
+  "users:manage": ["admin"],
+  "trash:manage": ["admin"],
+  "ai:use": ["admin", "staff"],
+} satisfies Record<string, UserRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const hasPermission = (
+  role: UserRole | undefined,
+  permission: Permission
+): boolean => {
+  return !!role && (PERMISSIONS[permission] as UserRole[]).includes(role);
+};
+
+/**
+ * Filter limiting a query to the user's own documents unless their role
+ * grants `permission` over everyone's. Expects the role loaded by
+ * authorize() or loadRole.
+ */
+export const ownedBy = (
+  user: AuthPayload,
+  permission: Permission
+): { userId?: string } => {
+  return hasPermission(user.role, permission) ? {} : { userId: user.userId };
+};
+
+/**
+ * Give the admin role to the users listed in ADMIN_EMAILS (comma separated),
+ * so a fresh install has someone who can hand out roles. Only verified
+ * addresses count, otherwise whoever registers the email first would win.
+ */
+export async function promoteConfiguredAdmins(): Promise<number> {
+  const emails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (emails.length === 0) {
+    return 0;
+  }
+
+  const result = await User.updateMany(
+    { email: { $in: emails }, emailVerified: true, role: { $ne: "admin" } },
+    { $set: { role: "admin" } }
+  );
+  return result.modifiedCount;
+}
@@ -0,0 +1,164 @@
+import mongoose from "mongoose";
+import { PriceChange } from "../models";
+import { IProduct, IProductSale } from "../models/Product";
+import { saleCovers } from "./salePrices";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+type PricedProduct = Pick<IProduct, "_id" | "price" | "variants">;
+
+// Window of the "lowest price in the last 30 days" rule unless asked otherwise
+export const LOWEST_PRICE_DAYS = 30;
+
+export interface LowestPrice {
+  variantId: string | null;
+  price: number;
+}
+
+/**
+ * Record every regular price that differs between `before` and `after`:
+ * the product price and the price of each variant. `before` is null for a
+ * new product, whose prices are recorded as their first entry.
+ */
+export async function recordPriceChanges(
+  before: PricedProduct | null,
+  after: PricedProduct,
+  changedBy?: ObjectIdLike | null
+): Promise<void> {
+  const entry = (
+    variantId: mongoose.Types.ObjectId | null,
+    price: number | null,
+    previousPrice: number | null
+  ) => ({
+    productId: after._id,
+    variantId,
+    type: "regular" as const,
+    price,
+    previousPrice,
+    changedBy: changedBy ?? null,
+  });
+
+  const entries = [];
+  if (!before || before.price !== after.price) {
+    entries.push(entry(null, after.price, before?.price ?? null));
+  }
+  for (const variant of after.variants) {
+    const previous = before?.variants.find(
+      (v) => String(v._id) === String(variant._id)
+    );
+    const price = variant.price ?? null;
+    // New variants only get an entry when they have a price of their own
+    if (previous ? (previous.price ?? null) !== price : price !== null) {
+      entries.push(entry(variant._id, price, previous?.price ?? null));
+    }
+  }
+
+  if (entries.length > 0) {
+    await PriceChange.insertMany(entries);
+  }
+}
+
+/**
+ * Record a sale as scheduled, or with its new window after it was ended or
+ * cancelled
+ */
+export async function recordSale(
+  productId: ObjectIdLike,
+  sale: IProductSale,
+  changedBy?: ObjectIdLike | null
+): Promise<void> {
+  await PriceChange.create({
+    productId,
+    variantId: sale.variantId ?? null,
+    type: "sale",
+    price: sale.price,
+    saleId: sale._id,
+    startsAt: sale.startsAt,
+    endsAt: sale.endsAt,
+    changedBy: changedBy ?? null,
+  });
+}
+
+/**
+ * Lowest price a line sold for since `since`, counting regular prices and
+ * sales. Regular prices are found by undoing the recorded changes, newest
+ * first, from the current prices back to the start of the window. Sales
+ * count with the window of their latest entry.
+ */
+export async function lowestPriceSince(
+  product: PricedProduct,
+  variantId: ObjectIdLike | null,
+  since: Date
+): Promise<number> {
+  const [regular, sales] = await Promise.all([
+    PriceChange.find({
+      productId: product._id,
+      type: "regular",
+      variantId: { $in: [null, variantId] },
+      createdAt: { $gte: since },
+    }).sort({ createdAt: -1, _id: -1 }),
+    PriceChange.find({ productId: product._id, type: "sale" }).sort({
+      createdAt: 1,
+      _id: 1,
+    }),
+  ]);
+
+  let productPrice = product.price;
+  let variantPrice: number | null = variantId
+    ? product.variants.find((v) => String(v._id) === String(variantId))?.price ?? null
+    : null;
+  const prices = [variantPrice ?? productPrice];
+
+  for (const change of regular) {
+    // Nothing was for sale before the product or variant existed
+    if (change.previousPrice === null && !change.variantId) break;
+    if (change.variantId) {
+      variantPrice = change.previousPrice;
+    } else {
+      productPrice = change.previousPrice!;
+    }
+    prices.push(variantPrice ?? productPrice);
+  }
+
+  const windows = new Map<string, (typeof sales)[number]>();
+  for (const sale of sales) {
+    windows.set(String(sale.saleId), sale);
+  }
+  const now = new Date();
+  for (const sale of windows.values()) {
+    if (
+      saleCovers(sale, variantId) &&
+      sale.price !== null &&
+      sale.startsAt! < now &&
+      sale.endsAt! > since
+    ) {
+      prices.push(sale.price);
+    }
+  }
+
+  return Math.min(...prices);
+}
+
+/**
+ * Lowest price of every line of a product (or of one variant) over the
+ * last `days` days
+ */
+export async function lowestPrices(
+  product: PricedProduct,
+  days: number,
+  variantId?: string
+): Promise<LowestPrice[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const variantIds: (string | null)[] = variantId
+    ? [variantId]
+    : product.variants.length > 0
+      ? product.variants.map((v) => String(v._id))
+      : [null];
+
+  return Promise.all(
+    variantIds.map(async (id) => ({
+      variantId: id,
+      price: await lowestPriceSince(product, id, since),
+    }))
+  );
+}
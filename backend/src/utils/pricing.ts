@@ -0,0 +1,184 @@
+import mongoose from "mongoose";
+import { IOrderItem, ShippingMethod, SHIPPING_METHODS } from "../models/Order";
+import { CouponDiscount, evaluateCoupon } from "./coupons";
+import { roundMoney } from "./orderItems";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export interface PricingConfig {
+  shippingMethod: ShippingMethod;
+  // flat: charged on every order; free_over_threshold: charged below the threshold
+  flatShippingRate: number;
+  freeShippingThreshold: number;
+  // weight: base rate plus a rate per kilogram
+  weightBaseRate: number;
+  weightRatePerKg: number;
+  // Tax rates per region code, e.g. { "DE": 0.19 }
+  taxRates: Record<string, number>;
+  defaultRegion: string;
+  taxInclusive: boolean;
+}
+
+export interface OrderPricing {
+  subtotal: number;
+  discount: CouponDiscount | null;
+  discountTotal: number;
+  shippingRegion: string;
+  shippingMethod: ShippingMethod;
+  shipping: number;
+  taxRate: number;
+  taxInclusive: boolean;
+  tax: number;
+  total: number;
+}
+
+interface PricingOptions {
+  userId: ObjectIdLike;
+  couponCode?: string | null;
+  region?: string;
+  // Order being repriced, see evaluateCoupon
+  orderId?: ObjectIdLike;
+  couponAlreadyApplied?: boolean;
+}
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Read pricing settings from the environment. TAX_RATES is a JSON object
+ * of region code to rate, e.g. {"DE":0.19,"NL":0.21}.
+ */
+export const loadPricingConfig = (): PricingConfig => {
+  const method = process.env.SHIPPING_METHOD as ShippingMethod;
+
+  let taxRates: Record<string, unknown> = {};
+  if (process.env.TAX_RATES) {
+    try {
+      taxRates = JSON.parse(process.env.TAX_RATES);
+    } catch (error) {
+      console.error("TAX_RATES is not valid JSON, no tax will be charged");
+    }
+  }
+
+  // A rate given as a string would be concatenated instead of added
+  const validRates = Object.entries(taxRates).filter(
+    (entry): entry is [string, number] => {
+      const [region, rate] = entry;
+      const valid = typeof rate === "number" && Number.isFinite(rate) && rate >= 0;
+      if (!valid) {
+        console.error(`TAX_RATES has an invalid rate for ${region}, ignoring it`);
+      }
+      return valid;
+    }
+  );
+
+  return {
+    shippingMethod: SHIPPING_METHODS.includes(method) ? method : "free_over_threshold",
+    flatShippingRate: parseNumber(process.env.SHIPPING_FLAT_RATE, 4.95),
+    freeShippingThreshold: parseNumber(process.env.SHIPPING_FREE_THRESHOLD, 50),
+    weightBaseRate: parseNumber(process.env.SHIPPING_WEIGHT_BASE_RATE, 2.5),
+    weightRatePerKg: parseNumber(process.env.SHIPPING_RATE_PER_KG, 1),
+    taxRates: Object.fromEntries(
+      validRates.map(([region, rate]) => [region.toUpperCase(), rate])
+    ),
+    defaultRegion: (process.env.DEFAULT_TAX_REGION || "DE").toUpperCase(),
+    taxInclusive: process.env.TAX_INCLUSIVE === "true",
+  };
+};
+
+const pricingConfig = loadPricingConfig();
+
+/**
+ * Shipping cost for a set of lines. `amount` is what the customer pays for
+ * the goods after discounts, used for the free-shipping threshold.
+ */
+export const calculateShipping = (
+  items: IOrderItem[],
+  amount: number,
+  config: PricingConfig = pricingConfig
+): number => {
+  if (items.length === 0) {
+    return 0;
+  }
+
+  switch (config.shippingMethod) {
+    case "flat":
+      return roundMoney(config.flatShippingRate);
+    case "weight": {
+      const weight = items.reduce(
+        (sum, item) => sum + (item.weight || 0) * item.quantity,
+        0
+      );
+      return roundMoney(config.weightBaseRate + weight * config.weightRatePerKg);
+    }
+    case "free_over_threshold":
+      return amount >= config.freeShippingThreshold
+        ? 0
+        : roundMoney(config.flatShippingRate);
+  }
+};
+
+/**
+ * Tax rate for a region. Regions without a configured rate pay the rate of
+ * the default region, so an unknown code can't be used to skip tax.
+ */
+export const taxRateFor = (
+  region: string,
+  config: PricingConfig = pricingConfig
+): number => {
+  return (
+    config.taxRates[region.toUpperCase()] ??
+    config.taxRates[config.defaultRegion] ??
+    0
+  );
+};
+
+/**
+ * Price snapshotted order lines: subtotal, coupon discount, shipping and tax.
+ * With exclusive pricing tax is added on top of goods and shipping; with
+ * inclusive pricing it is the tax share already contained in the total.
+ */
+export async function priceOrder(
+  items: IOrderItem[],
+  options: PricingOptions,
+  config: PricingConfig = pricingConfig
+): Promise<OrderPricing> {
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.subtotal, 0));
+
+  const discount = options.couponCode
+    ? await evaluateCoupon(options.couponCode, {
+        userId: options.userId,
+        items,
+        orderId: options.orderId,
+        alreadyApplied: options.couponAlreadyApplied,
+      })
+    : null;
+  const discountTotal = discount ? discount.amount : 0;
+  const goods = roundMoney(Math.max(subtotal - discountTotal, 0));
+
+  const shipping = discount?.freeShipping
+    ? 0
+    : calculateShipping(items, goods, config);
+
+  const shippingRegion = (options.region || config.defaultRegion).toUpperCase();
+  const taxRate = taxRateFor(shippingRegion, config);
+  const taxable = roundMoney(goods + shipping);
+  const tax = config.taxInclusive
+    ? roundMoney(taxable - taxable / (1 + taxRate))
+    : roundMoney(taxable * taxRate);
+
+  return {
+    subtotal,
+    discount,
+    discountTotal,
+    shippingRegion,
+    shippingMethod: config.shippingMethod,
+    shipping,
+    taxRate,
+    taxInclusive: config.taxInclusive,
+    tax,
+    total: config.taxInclusive ? taxable : roundMoney(taxable + tax),
+  };
+}
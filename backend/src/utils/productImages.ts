@@ -0,0 +1,109 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import sharp from "sharp";
+import { Product } from "../models";
+import { IProductImage } from "../models/Product";
+import { mediaStorage } from "./mediaStorage";
+
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+
+// Upload limit per file, MAX_IMAGE_SIZE_MB in the environment
+export const MAX_IMAGE_SIZE =
+  Number(process.env.MAX_IMAGE_SIZE_MB || 5) * 1024 * 1024;
+
+export const MAX_IMAGES_PER_PRODUCT = 10;
+
+// Thumbnails fit inside a square of this many pixels
+export const THUMBNAIL_SIZE = 320;
+
+// sharp's format names for the accepted upload types
+const FORMAT_TYPES: Record<string, (typeof IMAGE_TYPES)[number]> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+const EXTENSIONS: Record<(typeof IMAGE_TYPES)[number], string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/**
+ * Check an uploaded file really is an image of an accepted type, store it
+ * with a generated thumbnail and return the image entry for the product.
+ * The declared content type is not trusted; the bytes are decoded instead.
+ */
+export async function storeProductImage(
+  productId: string,
+  file: { buffer: Buffer; originalname: string }
+): Promise<IProductImage> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(file.buffer).metadata();
+  } catch {
+    throw new Error(`${file.originalname} is not a valid image`, {
+      cause: { status: 400 },
+    });
+  }
+
+  const contentType = metadata.format ? FORMAT_TYPES[metadata.format] : undefined;
+  if (!contentType) {
+    throw new Error(
+      `${file.originalname} must be one of: ${IMAGE_TYPES.join(", ")}`,
+      { cause: { status: 400 } }
+    );
+  }
+
+  const thumbnail = await sharp(file.buffer)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .webp()
+    .toBuffer();
+
+  const name = crypto.randomUUID();
+  const key = `products/${productId}/${name}.${EXTENSIONS[contentType]}`;
+  const thumbnailKey = `products/${productId}/${name}-thumb.webp`;
+
+  await mediaStorage.save(key, file.buffer, contentType);
+  await mediaStorage.save(thumbnailKey, thumbnail, "image/webp");
+
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    key,
+    thumbnailKey,
+    contentType,
+    size: file.buffer.length,
+    width: metadata.width ?? 0,
+    height: metadata.height ?? 0,
+    primary: false,
+  };
+}
+
+/**
+ * Delete the stored files of images that are no longer on a product
+ */
+export async function removeProductImageFiles(images: IProductImage[]): Promise<void> {
+  await Promise.all(
+    images.flatMap((image) => [
+      mediaStorage.remove(image.key),
+      mediaStorage.remove(image.thumbnailKey),
+    ])
+  );
+}
+
+/**
+ * Make the first image primary when the product has images but none is
+ * primary, e.g. after the first upload or after deleting the primary image.
+ * Conditional on there being no primary, so concurrent calls agree.
+ */
+export async function ensurePrimaryImage(productId: string): Promise<void> {
+  await Product.updateOne(
+    {
+      _id: productId,
+      "images.0": { $exists: true },
+      "images.primary": { $ne: true },
+    },
+    { $set: { "images.0.primary": true } }
+  );
+}
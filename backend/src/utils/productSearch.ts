@@ -0,0 +1,260 @@
+import mongoose, { PipelineStage } from "mongoose";
+import { Category, Product } from "../models";
+import { IProduct } from "../models/Product";
+import { keysetQuery, Page, PageOptions, SortKey, toPage } from "./pagination";
+
+export const PRODUCT_SORTS = [
+  "relevance",
+  "newest",
+  "price_asc",
+  "price_desc",
+  "rating",
+] as const;
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+// Lower bounds of the price facet buckets; the last bucket is open-ended
+export const PRICE_BUCKET_BOUNDARIES = [0, 25, 50, 100, 250, 500];
+
+export interface ProductSearchParams {
+  q?: string;
+  categoryIds?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  // Option values per axis, e.g. { size: ["M", "L"] }; one variant must match all axes
+  options?: Record<string, string[]>;
+  sort?: ProductSort;
+}
+
+export interface CategoryFacet {
+  categoryId: string;
+  name: string | null;
+  count: number;
+}
+
+export interface PriceFacet {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface ProductSearchResult {
+  page: Page<IProduct>;
+  // Matches across all pages
+  total: number;
+  facets: {
+    categories: CategoryFacet[];
+    prices: PriceFacet[];
+  };
+}
+
+// Sales running right now
+const ACTIVE_SALES = {
+  $filter: {
+    input: { $ifNull: ["$sales", []] },
+    as: "sale",
+    cond: {
+      $and: [
+        { $lte: ["$$sale.startsAt", "$$NOW"] },
+        { $gt: ["$$sale.endsAt", "$$NOW"] },
+      ],
+    },
+  },
+};
+
+// Current price of a line: its regular price lowered by the cheapest
+// running sale covering it, as currentPrice() computes it
+const linePrice = (regular: unknown, variantId: unknown) => ({
+  $min: [
+    regular,
+    {
+      $min: {
+        $map: {
+          input: {
+            $filter: {
+              input: "$$activeSales",
+              as: "sale",
+              cond: {
+                $or: [
+                  { $eq: [{ $ifNull: ["$$sale.variantId", null] }, null] },
+                  { $eq: ["$$sale.variantId", variantId] },
+                ],
+              },
+            },
+          },
+          as: "sale",
+          in: "$$sale.price",
+        },
+      },
+    },
+  ],
+});
+
+/**
+ * Lowest price a product sells for right now: the product price, or the
+ * cheapest variant when variants override it, including running sales
+ */
+const FROM_PRICE = {
+  $let: {
+    vars: { activeSales: ACTIVE_SALES },
+    in: {
+      $cond: [
+        { $gt: [{ $size: { $ifNull: ["$variants", []] } }, 0] },
+        {
+          $min: {
+            $map: {
+              input: "$variants",
+              as: "variant",
+              in: linePrice(
+                { $ifNull: ["$$variant.price", "$price"] },
+                "$$variant._id"
+              ),
+            },
+          },
+        },
+        linePrice("$price", null),
+      ],
+    },
+  },
+};
+
+const sortKey = (sort: ProductSort, hasQuery: boolean): SortKey => {
+  switch (sort) {
+    case "price_asc":
+      return { field: "fromPrice", direction: 1 };
+    case "price_desc":
+      return { field: "fromPrice", direction: -1 };
+    case "rating":
+      return { field: "ratingAverage", direction: -1 };
+    case "relevance":
+      if (hasQuery) {
+        return { field: "score", direction: -1 };
+      }
+      return { field: "createdAt", direction: -1 };
+    default:
+      return { field: "createdAt", direction: -1 };
+  }
+};
+
+/**
+ * Search the catalogue with full-text relevance, category, price and option
+ * filters. Facet counts are disjunctive: the category counts ignore the
+ * category filter and the price counts ignore the price filter, so shoppers
+ * can see what widening either filter would bring back.
+ */
+export async function searchProducts(
+  params: ProductSearchParams,
+  pageOptions: PageOptions
+): Promise<ProductSearchResult> {
+  const { q, categoryIds, minPrice, maxPrice, options } = params;
+  const sort = sortKey(params.sort ?? (q ? "relevance" : "newest"), !!q);
+  const keyset = keysetQuery(sort, pageOptions);
+
+  const baseMatch: Record<string, unknown> = {};
+  if (q) {
+    baseMatch.$text = { $search: q };
+  }
+  if (options && Object.keys(options).length > 0) {
+    baseMatch.variants = {
+      $elemMatch: Object.fromEntries(
+        Object.entries(options).map(([name, values]) => [
+          `options.${name}`,
+          { $in: values },
+        ])
+      ),
+    };
+  }
+
+  const categoryMatch: Record<string, unknown> = categoryIds?.length
+    ? {
+        categoryId: {
+          $in: categoryIds.map((id) => new mongoose.Types.ObjectId(id)),
+        },
+      }
+    : {};
+
+  const priceRange: Record<string, number> = {};
+  if (minPrice !== undefined) priceRange.$gte = minPrice;
+  if (maxPrice !== undefined) priceRange.$lte = maxPrice;
+  const priceMatch = Object.keys(priceRange).length
+    ? { fromPrice: priceRange }
+    : {};
+
+  const pipeline: PipelineStage[] = [
+    { $match: baseMatch },
+    {
+      $addFields: {
+        fromPrice: FROM_PRICE,
+        ...(q && { score: { $meta: "textScore" } }),
+      },
+    },
+    {
+      $facet: {
+        products: [
+          { $match: { ...categoryMatch, ...priceMatch } },
+          { $match: keyset.match },
+          { $sort: keyset.sort },
+          { $limit: keyset.limit + 1 },
+        ],
+        total: [
+          { $match: { ...categoryMatch, ...priceMatch } },
+          { $count: "count" },
+        ],
+        categories: [
+          { $match: priceMatch },
+          { $group: { _id: "$categoryId", count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+        ],
+        prices: [
+          { $match: categoryMatch },
+          {
+            $bucket: {
+              groupBy: "$fromPrice",
+              boundaries: [...PRICE_BUCKET_BOUNDARIES, Number.MAX_SAFE_INTEGER],
+              output: { count: { $sum: 1 } },
+            },
+          },
+        ],
+      },
+    },
+  ];
+
+  const [result] = await Product.aggregate(pipeline);
+
+  // Cursors are cut from the raw documents, which still carry fromPrice and score
+  const rawPage = toPage<Record<string, unknown>>(
+    result.products,
+    sort,
+    keyset,
+    (doc) => [doc[sort.field], doc._id]
+  );
+
+  // Turn the raw documents back into models so toJSON and populate apply
+  const products = rawPage.items.map((doc) => Product.hydrate(doc));
+  await Product.populate(products, { path: "categoryId", select: "name" });
+
+  const categories = await Category.find({
+    _id: { $in: result.categories.map((c: { _id: unknown }) => c._id) },
+  }).select("name");
+  const names = new Map(categories.map((c) => [String(c._id), c.name]));
+
+  return {
+    page: { ...rawPage, items: products },
+    total: result.total[0]?.count ?? 0,
+    facets: {
+      categories: result.categories.map((c: { _id: unknown; count: number }) => ({
+        categoryId: String(c._id),
+        name: names.get(String(c._id)) ?? null,
+        count: c.count,
+      })),
+      prices: result.prices.map((bucket: { _id: number; count: number }) => {
+        const index = PRICE_BUCKET_BOUNDARIES.indexOf(bucket._id);
+        return {
+          min: bucket._id,
+          max: PRICE_BUCKET_BOUNDARIES[index + 1] ?? null,
+          count: bucket.count,
+        };
+      }),
+    },
+  };
+}
@@ -0,0 +1,290 @@
+import mongoose, { AnyBulkWriteOperation } from "mongoose";
+import NodeCache from "node-cache";
+import { Order, Product, ProductAffinity } from "../models";
+import { IOrderItem, OrderStatus } from "../models/Order";
+import { IProduct } from "../models/Product";
+import { IProductAffinity } from "../models/ProductAffinity";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Orders that count as purchases: paid and not cancelled
+export const PURCHASED_STATUSES: OrderStatus[] = [
+  "paid",
+  "processing",
+  "shipped",
+  "delivered",
+];
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 10;
+
+// Longest ranking kept per product or user; requests can ask for fewer
+const MAX_RECOMMENDATIONS = 50;
+
+// Products of a user's purchase history that seed their recommendations
+const RECENT_PURCHASES = 20;
+
+export type RecommendationReason = "bought_together" | "same_category" | "popular";
+
+export interface Recommendation {
+  product: IProduct;
+  reason: RecommendationReason;
+  // Times bought together with the product (or the user's purchases), 0 for fallbacks
+  score: number;
+}
+
+interface RankedProduct {
+  productId: string;
+  reason: RecommendationReason;
+  score: number;
+}
+
+// Rankings are cached per product and per user, product data is always fresh
+const rankingCache = new NodeCache({
+  stdTTL: Number(process.env.RECOMMENDATION_CACHE_TTL || 600),
+  useClones: false,
+});
+
+interface CachedRanking {
+  // Products whose co-purchases the ranking was computed from
+  sources: string[];
+  ranking: RankedProduct[];
+}
+
+/**
+ * Drop every cached ranking that was computed from or lists one of the
+ * products, plus the buyer's own, whose purchases just changed
+ */
+const invalidateRankings = (productIds: string[], userId: ObjectIdLike): void => {
+  const touched = new Set(productIds);
+  const stale = rankingCache.keys().filter((key) => {
+    const cached = rankingCache.get<CachedRanking>(key);
+    return (
+      !!cached &&
+      (cached.sources.some((id) => touched.has(id)) ||
+        cached.ranking.some((entry) => touched.has(entry.productId)))
+    );
+  });
+  rankingCache.del([...stale, `user:${userId}`]);
+};
+
+/**
+ * Count the products of a purchased order as bought together with each
+ * other (delta 1), or take them back out when the order is cancelled
+ * (delta -1). Rankings involving these products or the buyer are refreshed.
+ */
+export async function recordCoPurchases(
+  order: { userId: ObjectIdLike; products: Pick<IOrderItem, "productId">[] },
+  delta: 1 | -1
+): Promise<void> {
+  const productIds = [
+    ...new Set(order.products.map((item) => String(item.productId))),
+  ];
+
+  const updates: AnyBulkWriteOperation<IProductAffinity>[] = [];
+  for (const productId of productIds) {
+    for (const relatedId of productIds) {
+      if (productId === relatedId) continue;
+      updates.push({
+        updateOne: {
+          filter: {
+            productId: new mongoose.Types.ObjectId(productId),
+            relatedId: new mongoose.Types.ObjectId(relatedId),
+          },
+          update: { $inc: { count: delta } },
+          upsert: true,
+        },
+      });
+    }
+  }
+  if (updates.length > 0) {
+    await ProductAffinity.bulkWrite(updates, { ordered: false });
+  }
+
+  invalidateRankings(productIds, order.userId);
+}
+
+/**
+ * Fill the affinity collection from the existing order history, once, when
+ * it is still empty. Later orders are counted by recordCoPurchases.
+ */
+export async function backfillAffinities(): Promise<void> {
+  if (await ProductAffinity.exists({})) {
+    return;
+  }
+
+  await Order.aggregate([
+    { $match: { status: { $in: PURCHASED_STATUSES } } },
+    // Every ordered pair of distinct products in the order
+    { $project: { productId: { $setUnion: ["$products.productId", []] } } },
+    { $addFields: { relatedId: "$productId" } },
+    { $unwind: "$productId" },
+    { $unwind: "$relatedId" },
+    { $match: { $expr: { $ne: ["$productId", "$relatedId"] } } },
+    {
+      $group: {
+        _id: { productId: "$productId", relatedId: "$relatedId" },
+        count: { $sum: 1 },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        productId: "$_id.productId",
+        relatedId: "$_id.relatedId",
+        count: 1,
+        createdAt: "$$NOW",
+        updatedAt: "$$NOW",
+      },
+    },
+    {
+      $merge: {
+        into: ProductAffinity.collection.name,
+        on: ["productId", "relatedId"],
+        whenMatched: "keepExisting",
+        whenNotMatched: "insert",
+      },
+    },
+  ]);
+}
+
+/**
+ * Live products of the given categories, best rated first, as fallback
+ * recommendations
+ */
+const fallbackProducts = async (
+  categoryIds: mongoose.Types.ObjectId[] | null,
+  exclude: Set<string>,
+  limit: number
+): Promise<RankedProduct[]> => {
+  if (limit <= 0) return [];
+  const products = await Product.find({
+    ...(categoryIds && { categoryId: { $in: categoryIds } }),
+    _id: { $nin: [...exclude] },
+  })
+    .sort({ ratingAverage: -1, ratingCount: -1, createdAt: -1 })
+    .limit(limit)
+    .select("_id");
+  return products.map((product) => ({
+    productId: String(product._id),
+    reason: categoryIds ? "same_category" : "popular",
+    score: 0,
+  }));
+};
+
+// Products bought together with the given ones, most often first
+const coPurchased = async (
+  productIds: mongoose.Types.ObjectId[],
+  exclude: Set<string>
+): Promise<RankedProduct[]> => {
+  const affinities = await ProductAffinity.aggregate([
+    { $match: { productId: { $in: productIds }, count: { $gt: 0 } } },
+    { $group: { _id: "$relatedId", score: { $sum: "$count" } } },
+    { $match: { _id: { $nin: [...exclude].map((id) => new mongoose.Types.ObjectId(id)) } } },
+    { $sort: { score: -1, _id: 1 } },
+    { $limit: MAX_RECOMMENDATIONS },
+  ]);
+  return affinities.map((affinity) => ({
+    productId: String(affinity._id),
+    reason: "bought_together",
+    score: affinity.score,
+  }));
+};
+
+/**
+ * Turn a ranking into live products, dropping any that were deleted since
+ * it was cached
+ */
+const hydrate = async (
+  ranking: RankedProduct[],
+  limit: number
+): Promise<Recommendation[]> => {
+  const products = await Product.find({
+    _id: { $in: ranking.map((entry) => entry.productId) },
+  }).populate("categoryId", "name");
+  const byId = new Map(products.map((product) => [String(product._id), product]));
+
+  return ranking
+    .filter((entry) => byId.has(entry.productId))
+    .slice(0, limit)
+    .map((entry) => ({
+      product: byId.get(entry.productId)!,
+      reason: entry.reason,
+      score: entry.score,
+    }));
+};
+
+/**
+ * Products frequently bought together with a product, topped up with
+ * products from the same category. Returns null if the product doesn't exist.
+ */
+export async function relatedProducts(
+  productId: string,
+  limit: number = DEFAULT_RECOMMENDATION_LIMIT
+): Promise<Recommendation[] | null> {
+  const product = await Product.findById(productId).select("categoryId");
+  if (!product) {
+    return null;
+  }
+
+  const key = `related:${productId}`;
+  let ranking = rankingCache.get<CachedRanking>(key)?.ranking;
+  if (!ranking) {
+    const exclude = new Set([productId]);
+    ranking = await coPurchased([product._id as mongoose.Types.ObjectId], exclude);
+    ranking.forEach((entry) => exclude.add(entry.productId));
+    ranking.push(
+      ...(await fallbackProducts(
+        [product.categoryId],
+        exclude,
+        MAX_RECOMMENDATIONS - ranking.length
+      ))
+    );
+    rankingCache.set<CachedRanking>(key, { sources: [productId], ranking });
+  }
+
+  return hydrate(ranking, limit);
+}
+
+/**
+ * Recommendations for a user from what their recent purchases were bought
+ * together with, then products from the same categories, then popular
+ * products for users who haven't bought anything yet
+ */
+export async function userRecommendations(
+  userId: string,
+  limit: number = DEFAULT_RECOMMENDATION_LIMIT
+): Promise<Recommendation[]> {
+  const key = `user:${userId}`;
+  let ranking = rankingCache.get<CachedRanking>(key)?.ranking;
+  if (!ranking) {
+    const orders = await Order.find({ userId, status: { $in: PURCHASED_STATUSES } })
+      .sort({ createdAt: -1 })
+      .limit(RECENT_PURCHASES)
+      .select("products.productId");
+    const purchased = [
+      ...new Set(
+        orders.flatMap((order) => order.products.map((item) => String(item.productId)))
+      ),
+    ].slice(0, RECENT_PURCHASES);
+
+    // Don't recommend what the user already bought
+    const exclude = new Set(purchased);
+    const purchasedIds = purchased.map((id) => new mongoose.Types.ObjectId(id));
+    ranking = await coPurchased(purchasedIds, exclude);
+    ranking.forEach((entry) => exclude.add(entry.productId));
+
+    const categoryIds = purchased.length
+      ? (await Product.find({ _id: { $in: purchasedIds } }).distinct("categoryId"))
+      : null;
+    ranking.push(
+      ...(await fallbackProducts(
+        categoryIds as mongoose.Types.ObjectId[] | null,
+        exclude,
+        MAX_RECOMMENDATIONS - ranking.length
+      ))
+    );
+    rankingCache.set<CachedRanking>(key, { sources: purchased, ranking });
+  }
+
+  return hydrate(ranking, limit);
+}
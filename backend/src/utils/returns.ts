@@ -0,0 +1,338 @@
+import mongoose from "mongoose";
+import { Order, Payment, Return } from "../models";
+import { IOrder, OrderStatus } from "../models/Order";
+import {
+  IReturn,
+  IReturnItem,
+  ReturnCondition,
+  ReturnStatus,
+} from "../models/Return";
+import { releaseStock } from "./inventory";
+import { roundMoney } from "./orderItems";
+import { issueRefund } from "./paymentLedger";
+import { lineKey } from "./variants";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+/**
+ * Allowed return status transitions. Rejected and refunded are final.
+ */
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected"],
+  approved: ["received", "rejected"],
+  rejected: [],
+  received: ["refunded"],
+  refunded: [],
+};
+
+// Only goods that reached the customer can be sent back
+export const RETURNABLE_ORDER_STATUSES: OrderStatus[] = ["delivered"];
+
+// Goods in these conditions go back on sale when the return is received
+export const RESTOCKABLE_CONDITIONS: ReturnCondition[] = ["unopened", "like_new"];
+
+interface ReturnItemInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+interface TransitionOptions {
+  changedBy?: ObjectIdLike;
+  note?: string;
+  set?: Record<string, unknown>;
+}
+
+/**
+ * Copy the requested lines from the order, checking that each product (and
+ * variant) was ordered and that the quantity does not exceed what is still returnable
+ * after earlier, non-rejected returns.
+ */
+export async function buildReturnItems(
+  order: IOrder,
+  requested: ReturnItemInput[]
+): Promise<IReturnItem[]> {
+  const previous = await Return.find({
+    orderId: order._id,
+    status: { $ne: "rejected" },
+  });
+  const alreadyReturned = new Map<string, number>();
+  for (const rma of previous) {
+    for (const item of rma.items) {
+      const key = lineKey(item.productId, item.variantId);
+      alreadyReturned.set(key, (alreadyReturned.get(key) || 0) + item.quantity);
+    }
+  }
+
+  const requestedTotals = new Map<string, number>();
+  for (const item of requested) {
+    const key = lineKey(item.productId, item.variantId);
+    requestedTotals.set(key, (requestedTotals.get(key) || 0) + item.quantity);
+  }
+
+  const items: IReturnItem[] = [];
+  for (const [key, quantity] of requestedTotals) {
+    const line = order.products.find(
+      (p) => lineKey(p.productId, p.variantId) === key
+    );
+    if (!line) {
+      const [productId, variantId] = key.split(":");
+      const label = variantId
+        ? `Variant ${variantId} of product ${productId}`
+        : `Product ${productId}`;
+      throw new Error(`${label} is not part of this order`, {
+        cause: { status: 400 },
+      });
+    }
+
+    const returnable = line.quantity - (alreadyReturned.get(key) || 0);
+    if (quantity > returnable) {
+      throw new Error(
+        `Only ${returnable} of "${line.name}" can still be returned`,
+        { cause: { status: 400 } }
+      );
+    }
+
+    items.push({
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+      sku: line.sku ?? null,
+      name: line.name,
+      unitPrice: line.unitPrice,
+      quantity,
+    });
+  }
+  return items;
+}
+
+// Position of each returned line on the order, returns only exist for delivered orders whose lines no longer change
+const lineIndexes = (order: IOrder, items: IReturnItem[]) =>
+  items.map((item) => ({
+    index: order.products.findIndex(
+      (line) => lineKey(line.productId, line.variantId) === lineKey(item.productId, item.variantId)
+    ),
+    quantity: item.quantity,
+  }));
+
+/**
+ * Claim the returned units on the order lines. The increment is conditional
+ * on every line staying within its ordered quantity, so concurrent return
+ * requests can't return more than was bought between them.
+ */
+export async function claimReturnQuantities(
+  order: IOrder,
+  items: IReturnItem[]
+): Promise<void> {
+  const lines = lineIndexes(order, items);
+  const lineField = (index: number, field: string) => ({
+    $let: {
+      vars: { line: { $arrayElemAt: ["$products", index] } },
+      in: { $ifNull: [`$$line.${field}`, 0] },
+    },
+  });
+
+  const result = await Order.updateOne(
+    {
+      _id: order._id,
+      $expr: {
+        $and: lines.map(({ index, quantity }) => ({
+          $lte: [
+            { $add: [lineField(index, "returnedQuantity"), quantity] },
+            lineField(index, "quantity"),
+          ],
+        })),
+      },
+    },
+    {
+      $inc: Object.fromEntries(
+        lines.map(({ index, quantity }) => [`products.${index}.returnedQuantity`, quantity])
+      ),
+    }
+  );
+  if (result.modifiedCount === 0) {
+    throw new Error("These items were already returned by another request", {
+      cause: { status: 409 },
+    });
+  }
+}
+
+/**
+ * Give returned units back to the order lines, e.g. when a return is rejected
+ */
+export async function releaseReturnQuantities(
+  orderId: ObjectIdLike,
+  items: IReturnItem[]
+): Promise<void> {
+  const order = await Order.findById(orderId);
+  if (!order) {
+    return;
+  }
+  const lines = lineIndexes(order, items).filter(({ index }) => index >= 0);
+  await Order.updateOne(
+    { _id: order._id },
+    {
+      $inc: Object.fromEntries(
+        lines.map(({ index, quantity }) => [`products.${index}.returnedQuantity`, -quantity])
+      ),
+    }
+  );
+}
+
+/**
+ * Move a return to a new status, conditional on the status we validated
+ * against, and append the change to its history. Rejecting a return gives
+ * its units back to the order.
+ */
+export async function transitionReturnStatus(
+  returnId: ObjectIdLike,
+  to: ReturnStatus,
+  options: TransitionOptions = {}
+): Promise<IReturn> {
+  const rma = await Return.findById(returnId);
+  if (!rma) {
+    throw new Error("Return not found", { cause: { status: 404 } });
+  }
+
+  const from = rma.status;
+  if (!RETURN_STATUS_TRANSITIONS[from].includes(to)) {
+    throw new Error(`Cannot change return status from ${from} to ${to}`, {
+      cause: { status: 409 },
+    });
+  }
+
+  const updated = await Return.findOneAndUpdate(
+    { _id: rma._id, status: from },
+    {
+      $set: { ...options.set, status: to },
+      $push: {
+        statusHistory: {
+          from,
+          to,
+          changedBy: options.changedBy,
+          note: options.note,
+          changedAt: new Date(),
+        },
+      },
+    },
+    { new: true, runValidators: true }
+  );
+  if (!updated) {
+    throw new Error("Return was changed by another request, please retry", {
+      cause: { status: 409 },
+    });
+  }
+  if (to === "rejected") {
+    await releaseReturnQuantities(updated.orderId, updated.items);
+  }
+  return updated;
+}
+
+/**
+ * Record that the goods arrived and put them back in stock if their
+ * condition allows it
+ */
+export async function receiveReturn(
+  returnId: ObjectIdLike,
+  condition: ReturnCondition,
+  options: TransitionOptions = {}
+): Promise<IReturn> {
+  const restock = RESTOCKABLE_CONDITIONS.includes(condition);
+  const updated = await transitionReturnStatus(returnId, "received", {
+    ...options,
+    set: { condition, restocked: restock },
+  });
+
+  if (restock) {
+    await releaseStock(updated.items);
+  }
+  return updated;
+}
+
+/**
+ * Default refund for returned lines: their share of what the customer paid
+ * for goods, so coupon discounts and tax are refunded proportionally.
+ * Shipping is not refunded.
+ */
+export const defaultRefundAmount = (order: IOrder, items: IReturnItem[]): number => {
+  const itemsValue = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+  if (!order.subtotal) {
+    return roundMoney(itemsValue);
+  }
+  const paidForGoods = order.total - (order.shipping || 0);
+  return roundMoney((itemsValue / order.subtotal) * paidForGoods);
+};
+
+/**
+ * Refund a received return against the order's captured payment. The order
+ * is left as it was; only its payment status and refunded total change.
+ */
+export async function refundReturn(
+  returnId: ObjectIdLike,
+  amount?: number,
+  options: TransitionOptions = {}
+): Promise<IReturn> {
+  const rma = await Return.findById(returnId);
+  if (!rma) {
+    throw new Error("Return not found", { cause: { status: 404 } });
+  }
+  if (rma.status !== "received") {
+    throw new Error(`Cannot refund a return that is ${rma.status}`, {
+      cause: { status: 409 },
+    });
+  }
+
+  const order = await Order.findById(rma.orderId);
+  if (!order) {
+    throw new Error("Order not found", { cause: { status: 404 } });
+  }
+
+  const payment = await Payment.findOne({
+    orderId: order._id,
+    status: { $in: ["captured", "partially_refunded"] },
+  });
+  if (!payment) {
+    throw new Error("Order has no captured payment to refund", {
+      cause: { status: 409 },
+    });
+  }
+
+  const refundAmount = amount ?? defaultRefundAmount(order, rma.items);
+
+  // Claim the return first so two concurrent requests cannot refund it twice
+  await transitionReturnStatus(rma._id as mongoose.Types.ObjectId, "refunded", options);
+
+  let refunded;
+  try {
+    refunded = await issueRefund(
+      payment._id as mongoose.Types.ObjectId,
+      refundAmount,
+      `Return ${rma._id}: ${rma.reason}`
+    );
+  } catch (error) {
+    await Return.updateOne(
+      { _id: rma._id, status: "refunded" },
+      { $set: { status: "received" }, $pop: { statusHistory: 1 } }
+    );
+    throw error;
+  }
+  const refund = refunded.refunds[refunded.refunds.length - 1];
+
+  await Order.updateOne(
+    { _id: order._id },
+    { $inc: { refundedTotal: refund.amount } }
+  );
+
+  const updated = await Return.findByIdAndUpdate(
+    rma._id,
+    {
+      refund: {
+        paymentId: payment._id,
+        refundRef: refund.refundRef,
+        amount: refund.amount,
+        refundedAt: refund.createdAt,
+      },
+    },
+    { new: true }
+  );
+  return updated!;
+}
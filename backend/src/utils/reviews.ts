@@ -0,0 +1,99 @@
+import mongoose from "mongoose";
+import { Order, Product, Review } from "../models";
+import { IOrder } from "../models/Order";
+import { IReview, ReviewStatus } from "../models/Review";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Moderation decisions an admin can make from each status
+export const REVIEW_STATUS_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  pending: ["approved", "rejected"],
+  approved: ["rejected"],
+  rejected: ["approved"],
+};
+
+/**
+ * Find a delivered order of the user that contains the product. Only
+ * customers who actually received the product may review it.
+ */
+export async function findVerifiedPurchase(
+  userId: ObjectIdLike,
+  productId: ObjectIdLike
+): Promise<IOrder | null> {
+  return Order.findOne({
+    userId,
+    "products.productId": productId,
+    status: "delivered",
+  }).sort({ createdAt: -1 });
+}
+
+/**
+ * Recompute the product's average rating and review count from its approved
+ * reviews. Recomputing instead of adjusting by deltas keeps the numbers
+ * correct even when moderation and edits overlap.
+ */
+export async function refreshProductRating(productId: ObjectIdLike): Promise<void> {
+  const [stats] = await Review.aggregate([
+    {
+      $match: {
+        productId: new mongoose.Types.ObjectId(productId.toString()),
+        status: "approved",
+      },
+    },
+    {
+      $group: { _id: null, average: { $avg: "$rating" }, count: { $sum: 1 } },
+    },
+  ]);
+
+  await Product.updateOne(
+    { _id: productId },
+    {
+      $set: {
+        ratingAverage: stats ? Math.round(stats.average * 100) / 100 : 0,
+        ratingCount: stats ? stats.count : 0,
+      },
+    }
+  );
+}
+
+/**
+ * Approve or reject a review, guarded on its current status so two
+ * moderators can't overwrite each other, and update the product rating
+ */
+export async function moderateReview(
+  reviewId: ObjectIdLike,
+  to: ReviewStatus,
+  options: { moderatedBy?: ObjectIdLike; note?: string } = {}
+): Promise<IReview> {
+  const review = await Review.findById(reviewId);
+  if (!review) {
+    throw new Error("Review not found", { cause: { status: 404 } });
+  }
+
+  if (!REVIEW_STATUS_TRANSITIONS[review.status].includes(to)) {
+    throw new Error(`Cannot change review from ${review.status} to ${to}`, {
+      cause: { status: 409 },
+    });
+  }
+
+  const updated = await Review.findOneAndUpdate(
+    { _id: review._id, status: review.status },
+    {
+      $set: {
+        status: to,
+        moderatedBy: options.moderatedBy,
+        moderatedAt: new Date(),
+        moderationNote: options.note,
+      },
+    },
+    { new: true }
+  );
+  if (!updated) {
+    throw new Error("Review was moderated concurrently, please retry", {
+      cause: { status: 409 },
+    });
+  }
+
+  await refreshProductRating(updated.productId);
+  return updated;
+}
@@ -0,0 +1,50 @@
+import mongoose from "mongoose";
+import { IProduct, IProductSale, IProductVariant } from "../models/Product";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+/**
+ * Whether a sale applies to a line: sales without a variant cover the whole
+ * product, the others only their variant
+ */
+export const saleCovers = (
+  sale: Pick<IProductSale, "variantId">,
+  variantId?: ObjectIdLike | null
+): boolean => {
+  return !sale.variantId || String(sale.variantId) === String(variantId ?? "");
+};
+
+export const isSaleActive = (
+  sale: Pick<IProductSale, "startsAt" | "endsAt">,
+  at: Date = new Date()
+): boolean => {
+  return sale.startsAt <= at && at < sale.endsAt;
+};
+
+/**
+ * Cheapest sale running for a line at `at`, if any
+ */
+export const activeSale = (
+  product: Pick<IProduct, "sales">,
+  variant?: Pick<IProductVariant, "_id">,
+  at: Date = new Date()
+): IProductSale | undefined => {
+  return (product.sales ?? [])
+    .filter((sale) => saleCovers(sale, variant?._id) && isSaleActive(sale, at))
+    .sort((a, b) => a.price - b.price)[0];
+};
+
+/**
+ * Price a line sells for at `at`: its regular price (the variant price, or
+ * the product price without one), lowered by the cheapest running sale.
+ * A sale never raises the price.
+ */
+export const currentPrice = (
+  product: Pick<IProduct, "price" | "sales">,
+  variant?: Pick<IProductVariant, "_id" | "price">,
+  at: Date = new Date()
+): number => {
+  const regular = variant?.price ?? product.price;
+  const sale = activeSale(product, variant, at);
+  return sale ? Math.min(regular, sale.price) : regular;
+};
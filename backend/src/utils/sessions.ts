@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import jwt, { SignOptions } from "jsonwebtoken";
+import mongoose from "mongoose";
+import { Session, User } from "../models";
+import { ISession, SessionRevokeReason } from "../models/Session";
+import { IUser } from "../models/User";
+import { AuthPayload } from "../types";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export const JWT_SECRET = process.env.JWT_SECRET || "fallback-secret";
+// Access token lifetime in jsonwebtoken notation, e.g. "15m" or "1h"
+export const ACCESS_TOKEN_TTL = (process.env.ACCESS_TOKEN_TTL ||
+  "15m") as NonNullable<SignOptions["expiresIn"]>;
+// How long a login lasts; refreshing rotates the token but doesn't extend it
+export const REFRESH_TOKEN_TTL_DAYS = Number(
+  process.env.REFRESH_TOKEN_TTL_DAYS || 30
+);
+
+export interface SessionTokens {
+  // Access token for the Authorization header
+  token: string;
+  refreshToken: string;
+  expiresIn: string | number;
+  refreshExpiresAt: Date;
+}
+
+// Client details stored with a session so users can tell their logins apart
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+}
+
+const hashSecret = (secret: string): string =>
+  crypto.createHash("sha256").update(secret).digest("hex");
+
+const newSecret = (): string => crypto.randomBytes(32).toString("base64url");
+
+// Refresh tokens read <session id>.<generation>.<secret>
+const parseRefreshToken = (token: string) => {
+  const [sessionId, generation, secret, ...rest] = token.split(".");
+  if (
+    rest.length > 0 ||
+    !mongoose.Types.ObjectId.isValid(sessionId) ||
+    !/^\d+$/.test(generation ?? "") ||
+    !secret
+  ) {
+    return null;
+  }
+  return { sessionId, generation: Number(generation), secret };
+};
+
+const invalidRefreshToken = () =>
+  new Error("Invalid or expired refresh token", { cause: { status: 401 } });
+
+const reusedRefreshToken = () =>
+  new Error("Refresh token was already used, the session has been revoked", {
+    cause: { status: 401 },
+  });
+
+const issueTokens = (
+  user: IUser,
+  session: ISession,
+  secret: string
+): SessionTokens => {
+  const payload: AuthPayload = {
+    userId: String(user._id),
+    email: user.email,
+    sid: String(session._id),
+  };
+  return {
+    token: jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL }),
+    refreshToken: `${session._id}.${session.generation}.${secret}`,
+    expiresIn: ACCESS_TOKEN_TTL,
+    refreshExpiresAt: session.expiresAt,
+  };
+};
+
+/**
+ * Start a session for a user who just logged in or registered
+ */
+export async function startSession(
+  user: IUser,
+  client: SessionClient = {}
+): Promise<SessionTokens> {
+  const secret = newSecret();
+  const session = await Session.create({
+    userId: user._id,
+    refreshTokenHash: hashSecret(secret),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    ...client,
+  });
+  return issueTokens(user, session, secret);
+}
+
+/**
+ * Trade a refresh token for a new access token and a new refresh token.
+ * Each refresh token works once. A token from an earlier generation coming
+ * back means someone kept a copy; as the server can't tell the thief from
+ * the user, the whole session is revoked and both have to log in again.
+ */
+export async function refreshSession(
+  refreshToken: string,
+  client: SessionClient = {}
+): Promise<SessionTokens> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    throw invalidRefreshToken();
+  }
+
+  const session = await Session.findById(parsed.sessionId);
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    throw invalidRefreshToken();
+  }
+  if (parsed.generation < session.generation) {
+    await revokeSession(session._id as mongoose.Types.ObjectId, "reuse_detected");
+    throw reusedRefreshToken();
+  }
+  if (
+    parsed.generation !== session.generation ||
+    hashSecret(parsed.secret) !== session.refreshTokenHash
+  ) {
+    throw invalidRefreshToken();
+  }
+
+  const user = await User.findById(session.userId);
+  if (!user || user.isActive === false) {
+    throw invalidRefreshToken();
+  }
+
+  // Guard on the generation so the same token can't be rotated twice
+  const secret = newSecret();
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, generation: session.generation, revokedAt: null },
+    {
+      $set: {
+        refreshTokenHash: hashSecret(secret),
+        lastRefreshedAt: new Date(),
+        ...client,
+      },
+      $inc: { generation: 1 },
+    },
+    { new: true }
+  );
+  if (!rotated) {
+    // A concurrent request used the same token first
+    await revokeSession(session._id as mongoose.Types.ObjectId, "reuse_detected");
+    throw reusedRefreshToken();
+  }
+
+  return issueTokens(user, rotated, secret);
+}
+
+/**
+ * Revoke one session; its access and refresh tokens stop working at once
+ */
+export async function revokeSession(
+  sessionId: ObjectIdLike,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  const result = await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Revoke every session of a user, returning how many were still active
+ */
+export async function revokeUserSessions(
+  userId: ObjectIdLike,
+  reason: SessionRevokeReason,
+  exceptSessionId?: ObjectIdLike
+): Promise<number> {
+  const result = await Session.updateMany(
+    {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { _id: { $ne: exceptSessionId } } : {}),
+    },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * Whether access tokens of the session are still accepted
+ */
+export async function isSessionActive(sessionId: ObjectIdLike): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(String(sessionId))) {
+    return false;
+  }
+  const session = await Session.exists({
+    _id: sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+  return !!session;
+}
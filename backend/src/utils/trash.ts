@@ -0,0 +1,191 @@
+import mongoose from "mongoose";
+import { Category, Order, Payment, Product, Return, User } from "../models";
+import { ICategory } from "../models/Category";
+import { IProduct } from "../models/Product";
+import { ISoftDeletable } from "../models/softDelete";
+import { IUser } from "../models/User";
+import { Page, PageOptions, paginateFind, SortKey } from "./pagination";
+import { removeProductImageFiles } from "./productImages";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export const TRASH_TYPES = ["products", "categories", "users"] as const;
+
+export type TrashType = (typeof TRASH_TYPES)[number];
+
+// Filter selecting trashed documents, which the soft-delete plugin leaves alone
+export const IN_TRASH = { deletedAt: { $ne: null } };
+
+// Most recently deleted first
+const TRASH_SORT: SortKey = { field: "deletedAt", direction: -1 };
+
+/**
+ * One page of the trashed documents of a type
+ */
+export async function listTrash(
+  type: TrashType,
+  options: PageOptions
+): Promise<Page<IProduct | ICategory | IUser>> {
+  switch (type) {
+    case "products":
+      return paginateFind(Product, IN_TRASH, TRASH_SORT, options);
+    case "categories":
+      return paginateFind(Category, IN_TRASH, TRASH_SORT, options);
+    case "users":
+      return paginateFind(User, IN_TRASH, TRASH_SORT, options);
+  }
+}
+
+const conflictError = (message: string) =>
+  new Error(message, { cause: { status: 409 } });
+
+// Restoring clashes with a live document holding the same unique value
+const restoreConflict = (error: unknown, message: string): never => {
+  if ((error as { code?: number })?.code === 11000) {
+    throw conflictError(message);
+  }
+  throw error;
+};
+
+/**
+ * Take a document out of the trash. A product needs its category to be
+ * live and a category its parent. Restoring a category also restores the
+ * subcategories that were trashed together with it.
+ */
+export async function restoreFromTrash(
+  type: TrashType,
+  id: ObjectIdLike
+): Promise<(mongoose.Document & ISoftDeletable) | null> {
+  if (type === "products") {
+    const product = await Product.findOne({ _id: id, ...IN_TRASH });
+    if (!product) return null;
+    if (!(await Category.exists({ _id: product.categoryId }))) {
+      throw conflictError("Restore the product's category first");
+    }
+    return Product.findOneAndUpdate(
+      { _id: id, ...IN_TRASH },
+      { $set: { deletedAt: null } },
+      { new: true }
+    ).catch((error) =>
+      restoreConflict(error, "A live product already uses one of its SKUs")
+    );
+  }
+
+  if (type === "categories") {
+    const category = await Category.findOne({ _id: id, ...IN_TRASH });
+    if (!category) return null;
+    if (category.parentId && !(await Category.exists({ _id: category.parentId }))) {
+      throw conflictError("Restore the parent category first");
+    }
+    const restored = await Category.findOneAndUpdate(
+      { _id: id, ...IN_TRASH },
+      { $set: { deletedAt: null } },
+      { new: true }
+    ).catch((error) =>
+      restoreConflict(error, "A live category with the same name already exists there")
+    );
+    if (restored) {
+      // Descendants trashed in the same cascade share its timestamp
+      await Category.updateMany(
+        { ancestors: category._id, deletedAt: category.deletedAt },
+        { $set: { deletedAt: null } }
+      ).catch((error) =>
+        restoreConflict(error, "A subcategory clashes with a live category of the same name")
+      );
+    }
+    return restored;
+  }
+
+  return User.findOneAndUpdate(
+    { _id: id, ...IN_TRASH },
+    { $set: { deletedAt: null } },
+    { new: true }
+  ).catch((error) =>
+    restoreConflict(error, "A live user already has this email")
+  );
+}
+
+/**
+ * Permanently delete everything that has been in the trash for longer than
+ * `retentionDays`. Orders, payments and returns are kept for bookkeeping, so
+ * products and users they refer to stay in the trash for good, and so do
+ * categories with products or subcategories left. Returns how many
+ * documents of each type were removed.
+ */
+export async function purgeTrash(
+  retentionDays: number
+): Promise<Record<TrashType, number>> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const expired = { deletedAt: { $ne: null, $lt: cutoff } };
+
+  // Image files go with their product
+  let products = 0;
+  for (const product of await Product.find(expired).select("images")) {
+    if (await Order.exists({ "products.productId": product._id })) {
+      continue;
+    }
+    await Product.deleteOne({ _id: product._id, ...expired });
+    await removeProductImageFiles(product.images);
+    products++;
+  }
+
+  // Trashed products and subcategories still need their category to be restored
+  let categories = 0;
+  for (const category of await Category.find(expired).select("_id")) {
+    const inUse =
+      (await Product.exists({ categoryId: category._id })) ||
+      (await Product.exists({ categoryId: category._id, ...IN_TRASH })) ||
+      (await Category.exists({ parentId: category._id })) ||
+      (await Category.exists({ parentId: category._id, ...IN_TRASH }));
+    if (inUse) {
+      continue;
+    }
+    const { deletedCount } = await Category.deleteOne({ _id: category._id, ...expired });
+    categories += deletedCount;
+  }
+
+  const referenced = async (userId: unknown) =>
+    !!(
+      (await Order.exists({ userId })) ||
+      (await Payment.exists({ userId })) ||
+      (await Return.exists({ userId }))
+    );
+  const expiredUsers = await User.find(expired).select("_id");
+  const purgeable = [];
+  for (const user of expiredUsers) {
+    if (!(await referenced(user._id))) {
+      purgeable.push(user._id);
+    }
+  }
+  const users = await User.deleteMany({ _id: { $in: purgeable }, ...expired });
+
+  return {
+    products,
+    categories,
+    users: users.deletedCount,
+  };
+}
+
+/**
+ * Run purgeTrash every TRASH_PURGE_INTERVAL_HOURS (default 24, 0 disables)
+ * for documents older than TRASH_RETENTION_DAYS (default 30)
+ */
+export const scheduleTrashPurge = (): void => {
+  const retentionDays = Number(process.env.TRASH_RETENTION_DAYS ?? 30);
+  const intervalHours = Number(process.env.TRASH_PURGE_INTERVAL_HOURS ?? 24);
+  if (!(intervalHours > 0) || !(retentionDays >= 0)) {
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const purged = await purgeTrash(retentionDays);
+      console.log("Purged trash:", purged);
+    } catch (error) {
+      console.error("Failed to purge trash:", error);
+    }
+  };
+
+  run();
+  setInterval(run, intervalHours * 60 * 60 * 1000).unref();
+};
@@ -0,0 +1,162 @@
+import mongoose from "mongoose";
+import { IProduct, IProductOption, IProductVariant } from "../models/Product";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+/**
+ * Key identifying an order or cart line: the product plus the variant, if any
+ */
+export const lineKey = (
+  productId: ObjectIdLike,
+  variantId?: ObjectIdLike | null
+): string => {
+  return `${productId}:${variantId ?? ""}`;
+};
+
+/**
+ * Look up a variant of a product by its id
+ */
+export const findVariant = (
+  product: IProduct,
+  variantId: ObjectIdLike
+): IProductVariant | undefined => {
+  return product.variants.find(
+    (variant) => variant._id.toString() === variantId.toString()
+  );
+};
+
+/**
+ * Price of a variant, falling back to the product price when it has no override
+ */
+export const variantPrice = (
+  product: IProduct,
+  variant?: IProductVariant
+): number => {
+  return variant?.price ?? product.price;
+};
+
+/**
+ * Human readable option values, e.g. "size: M, colour: Red"
+ */
+export const describeVariant = (options: Record<string, string> = {}): string => {
+  return Object.entries(options)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(", ");
+};
+
+/**
+ * Resolve the variant an order or cart line refers to. Products with variants
+ * can only be bought as one of them, and products without variants never take one.
+ */
+export const resolveVariant = (
+  product: IProduct,
+  variantId?: ObjectIdLike | null
+): IProductVariant | undefined => {
+  if (product.variants.length === 0) {
+    if (variantId) {
+      throw new Error(`Product "${product.name}" has no variants`, {
+        cause: { status: 400 },
+      });
+    }
+    return undefined;
+  }
+
+  if (!variantId) {
+    throw new Error(`Product "${product.name}" requires a variantId`, {
+      cause: {
+        status: 400,
+        details: {
+          productId: String(product._id),
+          variants: product.variants.map((variant) => ({
+            id: variant._id,
+            sku: variant.sku,
+            options: variant.options,
+          })),
+        },
+      },
+    });
+  }
+
+  const variant = findVariant(product, variantId);
+  if (!variant) {
+    throw new Error(`Variant ${variantId} not found on "${product.name}"`, {
+      cause: { status: 400 },
+    });
+  }
+  return variant;
+};
+
+/**
+ * Check that every variant picks exactly one allowed value per option axis,
+ * that no two variants share a combination, and that SKUs are not repeated.
+ * Collects all problems so the client can fix the payload in one go.
+ */
+export const assertValidVariants = (
+  options: IProductOption[],
+  variants: Pick<IProductVariant, "sku" | "options">[]
+): void => {
+  const problems: string[] = [];
+
+  if (variants.length > 0 && options.length === 0) {
+    problems.push("Variants require at least one option axis");
+  }
+
+  const axes = new Map(options.map((option) => [option.name, option.values]));
+  const combinations = new Set<string>();
+  const skus = new Set<string>();
+
+  variants.forEach((variant, index) => {
+    const label = `Variant ${index + 1} (${variant.sku})`;
+    const chosen = variant.options || {};
+
+    for (const [name, values] of axes) {
+      if (!(name in chosen)) {
+        problems.push(`${label} is missing a value for "${name}"`);
+      } else if (!values.includes(chosen[name])) {
+        problems.push(`${label} has unknown ${name} "${chosen[name]}"`);
+      }
+    }
+    for (const name of Object.keys(chosen)) {
+      if (!axes.has(name)) {
+        problems.push(`${label} uses undefined option "${name}"`);
+      }
+    }
+
+    const combination = options.map((option) => chosen[option.name]).join("\u0000");
+    if (combinations.has(combination)) {
+      problems.push(`${label} repeats an option combination`);
+    }
+    combinations.add(combination);
+
+    const sku = variant.sku.toUpperCase();
+    if (skus.has(sku)) {
+      problems.push(`${label} repeats SKU ${sku}`);
+    }
+    skus.add(sku);
+  });
+
+  if (problems.length > 0) {
+    throw new Error("Invalid product variants", {
+      cause: { status: 400, details: problems },
+    });
+  }
+};
+
+/**
+ * Map variant payloads onto subdocuments. Variants sent with an id must
+ * already exist on the product, so their id (and every cart or order line
+ * pointing at it) survives the update.
+ */
+export const toVariantDocs = <T extends { id?: string }>(
+  variants: T[],
+  existing?: IProduct
+) => {
+  return variants.map(({ id, ...variant }) => {
+    if (id && !existing?.variants.some((v) => v._id.toString() === id)) {
+      throw new Error(`Variant ${id} not found on this product`, {
+        cause: { status: 400 },
+      });
+    }
+    return id ? { _id: id, ...variant } : variant;
+  });
+};